@@ -0,0 +1,160 @@
+import { acquire, attribute, release } from './attributes.ts';
+import { elementsOutside } from './dom.ts';
+
+export interface A11yOptions {
+  busy?: boolean;
+  inert?: boolean;
+  announce?: string;
+}
+
+let liveRegion: HTMLElement | undefined;
+
+let announcements = 0;
+
+// The message waiting to be written, which a newer announcement replaces
+let pendingAnnouncement: number | undefined;
+
+// Screen readers overlook text set in the same task as its live region is inserted or emptied
+const announceDelay = 100;
+
+/**
+ * Narrows regions down to the parts that hold none of the exempt elements, so that those stay usable.
+ * @param regions - The regions to make inert.
+ * @param exempt - The elements that must not become inert.
+ * @returns The regions without exempt elements, and the parts of the others around them.
+ */
+const withoutExempt = (regions: Element[], exempt: Element[]) => {
+  const inert: Element[] = [];
+
+  regions.forEach(region => {
+    const contained = exempt.filter(element => region.contains(element));
+
+    if (!contained.length) {
+      inert.push(region);
+      return;
+    }
+    elementsOutside(contained).forEach(element => {
+      if (element !== region && region.contains(element)) {
+        inert.push(element);
+      }
+    });
+  });
+  return inert;
+};
+
+class A11yState {
+  private _busy: Element[];
+
+  private _inside: Element[];
+
+  private _outside: boolean;
+
+  private _exempt: Element[];
+
+  private _options: A11yOptions;
+
+  private _inert: Element[];
+
+  private _announceId: number | undefined;
+
+  /**
+   * Creates the accessibility state of one lock.
+   * @param elements - The target elements, or an empty list for the global lock.
+   * @param outside - Whether the lock blocks everything outside the target elements.
+   * @param exempt - Elements that stay interactive under the lock, and so never become inert.
+   * @param options - Which parts of the state to apply.
+   */
+  constructor (elements: Element[], outside: boolean, exempt: Element[], options: A11yOptions) {
+    this._busy = elements.length ? elements : [document.body];
+    this._inside = elements;
+    this._outside = outside || !elements.length;
+    this._exempt = exempt;
+    this._options = options;
+    this._inert = [];
+    this._announceId = undefined;
+  }
+
+  /**
+   * Marks the target as busy, makes the blocked regions inert and announces the lock.
+   */
+  apply () {
+    if (this._options.busy ?? true) {
+      this._busy.forEach(element => acquire(attribute(element, 'aria-busy'), 'true'));
+    }
+    if (this._options.announce) {
+      this._announce(this._options.announce);
+    }
+    this.resume();
+  }
+
+  /**
+   * Writes a message to the shared polite live region, creating it on first use. The region is
+   * emptied first and the message written a little later, so that a repeated message is announced too.
+   * @param message - The message to announce.
+   */
+  private _announce (message: string) {
+    const region = liveRegion ?? document.createElement('div');
+
+    if (!liveRegion) {
+      region.setAttribute('role', 'status');
+      region.setAttribute('aria-live', 'polite');
+      // Visually hidden, but still exposed to assistive technologies
+      region.style.cssText =
+        'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);border:0';
+      liveRegion = region;
+    }
+    // The application may have replaced the body since the region was inserted
+    if (!region.isConnected) {
+      document.body.appendChild(region);
+    }
+    announcements++;
+    region.textContent = '';
+    globalThis.clearTimeout(pendingAnnouncement);
+    pendingAnnouncement = globalThis.setTimeout(() => {
+      pendingAnnouncement = undefined;
+      region.textContent = message;
+    }, announceDelay);
+    this._announceId = pendingAnnouncement;
+  }
+
+  /**
+   * Removes inert from the blocked regions, e.g. while a stacked lock above this one is active.
+   */
+  pause () {
+    this._inert.splice(0).forEach(element => release(attribute(element, 'inert')));
+  }
+
+  /**
+   * Makes the blocked regions inert again. Does nothing if inert is not enabled or already applied.
+   */
+  resume () {
+    if (!this._options.inert || this._inert.length) {
+      return;
+    }
+    this._inert = withoutExempt(this._outside ? elementsOutside(this._inside) : this._inside, this._exempt)
+      .filter(element => element !== liveRegion);
+    this._inert.forEach(element => acquire(attribute(element, 'inert'), ''));
+  }
+
+  /**
+   * Reverts every change made by apply().
+   */
+  revert () {
+    this.pause();
+    if (this._options.busy ?? true) {
+      this._busy.forEach(element => release(attribute(element, 'aria-busy')));
+    }
+    if (this._announceId === pendingAnnouncement) {
+      globalThis.clearTimeout(pendingAnnouncement);
+      pendingAnnouncement = undefined;
+    }
+    this._announceId = undefined;
+    if (this._options.announce && liveRegion && --announcements <= 0) {
+      liveRegion.remove();
+      liveRegion = undefined;
+      announcements = 0;
+    }
+  }
+}
+
+export default A11yState;
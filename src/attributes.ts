@@ -0,0 +1,110 @@
+export interface Accessor {
+  element: Element;
+  key: string;
+  get: () => string | null;
+  set: (value: string | null) => void;
+}
+
+interface Applied {
+  count: number;
+  original: string | null;
+}
+
+// Values set by any lock, counted so that overlapping locks restore the original value only once
+const applied = new Map<Element, Map<string, Applied>>();
+
+/**
+ * Accesses an attribute of an element.
+ * @param element - The element.
+ * @param name - The attribute name.
+ * @returns Accessor for the attribute, null meaning absent.
+ */
+export const attribute = (element: Element, name: string): Accessor => ({
+  element,
+  key: name,
+  get: () => element.getAttribute(name),
+  set: value => {
+    if (value === null) {
+      element.removeAttribute(name);
+    } else {
+      element.setAttribute(name, value);
+    }
+  }
+});
+
+/**
+ * Accesses an inline style property of an element, including CSS custom properties.
+ * @param element - The element.
+ * @param property - The property name in CSS notation, such as `cursor` or `--busy`.
+ * @returns Accessor for the property, null meaning not set inline.
+ */
+export const style = (element: Element, property: string): Accessor => {
+  const declaration = (element as Partial<ElementCSSInlineStyle>).style;
+
+  return {
+    element,
+    key: `style:${property}`,
+    get: () => {
+      // An empty string means the property is not set inline
+      const value = declaration?.getPropertyValue(property);
+      return value === undefined || value === '' ? null : value;
+    },
+    set: value => {
+      if (value === null) {
+        declaration?.removeProperty(property);
+      } else {
+        declaration?.setProperty(property, value);
+      }
+    }
+  };
+};
+
+/**
+ * Accesses the presence of a class on an element.
+ * @param element - The element.
+ * @param name - The class name.
+ * @returns Accessor for the class, null meaning absent.
+ */
+export const className = (element: Element, name: string): Accessor => ({
+  element,
+  key: `class:${name}`,
+  get: () => element.classList.contains(name) ? name : null,
+  set: value => {
+    element.classList.toggle(name, value !== null);
+  }
+});
+
+/**
+ * Sets a value on behalf of a lock, remembering the value it had before the first lock set it.
+ * @param accessor - The value to change.
+ * @param value - The new value.
+ */
+export const acquire = (accessor: Accessor, value: string) => {
+  const { element, key } = accessor;
+  const values = applied.get(element) ?? new Map<string, Applied>();
+  const entry = values.get(key) ?? { count: 0, original: accessor.get() };
+
+  entry.count++;
+  values.set(key, entry);
+  applied.set(element, values);
+  accessor.set(value);
+};
+
+/**
+ * Releases a value set by a lock, restoring the original value once no lock needs it anymore.
+ * @param accessor - The value to restore.
+ */
+export const release = (accessor: Accessor) => {
+  const { element, key } = accessor;
+  const values = applied.get(element);
+  const entry = values?.get(key);
+
+  if (!values || !entry || --entry.count > 0) {
+    return;
+  }
+  values.delete(key);
+  if (!values.size) {
+    applied.delete(element);
+  }
+  accessor.set(entry.original);
+};
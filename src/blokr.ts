@@ -1,67 +1,702 @@
-import lock from './lock.ts';
-import type { Filter } from './lock.ts';
+import A11yState from './a11y.ts';
+import type { A11yOptions } from './a11y.ts';
+import { frameElementsOf, isElement, isKeyboardEvent, someComposedAncestor } from './dom.ts';
+import FocusTrap from './focus-trap.ts';
+import LockHandle from './handle.ts';
+import Indicator from './indicator.ts';
+import type { IndicatorOptions } from './indicator.ts';
+import { createKeyMatcher } from './keys.ts';
+import lock, { resolveEventNames } from './lock.ts';
+import { allowsInReadonly, controlSelector, readonlyEventTypes } from './readonly.ts';
+import ScrollLock from './scroll.ts';
+import { uncancellableEventNames } from './text-entry.ts';
+import type { EventCategory, EventType, Filter } from './lock.ts';
 
 export type Scope = 'inside' | 'outside' | 'self';
 
+export type Mode = 'block' | 'readonly';
+
+export type Target = Element | ArrayLike<Element> | string;
+
+export type { A11yOptions, EventCategory, EventType, IndicatorOptions, LockHandle };
+
+export interface KeyOptions {
+  allow?: string[];
+  block?: string[];
+}
+
 export interface Options {
   scope?: Scope;
   timeout?: number;
+  events?: EventType[];
+  trapFocus?: boolean;
+  keys?: KeyOptions;
+  frames?: boolean;
+  signal?: AbortSignal;
+  onBlocked?: BlockedCallback;
+  blockedThrottle?: number;
+  filter?: FilterPredicate;
+  except?: Target;
+  stack?: boolean;
+  label?: string;
+  onTimeout?: (context: LockContext) => void;
+  delay?: number;
+  minDuration?: number;
+  a11y?: boolean | A11yOptions;
+  indicator?: boolean | IndicatorOptions;
+  scroll?: boolean;
+  guard?: boolean;
+  mode?: Mode;
+  undoTextEntry?: boolean;
+}
+
+export interface HandleOptions extends Options {
+  handle: true;
+}
+
+export type UnlockReason = 'manual' | 'timeout' | 'abort';
+
+export interface LockEvent {
+  type: 'pending' | 'lock' | 'unlock';
+  instance: Blokr;
+  target: Target | undefined;
+  reason?: UnlockReason;
+}
+
+export type Subscriber = (evt: LockEvent) => void;
+
+export interface LockContext {
+  instance: Blokr;
+  target: Target | undefined;
+  scope: Scope;
 }
 
-const blokrs = new WeakMap<Element | typeof globalThis, Blokr>();
+export type FilterPredicate = (evt: Event, eventTarget: Element, context: LockContext) => boolean;
+
+export type WarningType = 'age' | 'detached';
+
+export interface LockInfo extends LockContext {
+  label: string | undefined;
+  options: Options;
+  lockedAt: number;
+  remaining: number | undefined;
+  suspended: boolean;
+  stack: string | undefined;
+  warnings: WarningType[];
+}
+
+export interface DebugWarning {
+  type: WarningType;
+  message: string;
+  info: LockInfo;
+}
+
+export interface DebugOptions {
+  maxAge?: number;
+  interval?: number;
+  onWarning?: (warning: DebugWarning) => void;
+}
+
+export interface BlockedInfo extends LockContext {
+  attempts: number;
+}
+
+export type BlockedCallback = (evt: Event, info: BlockedInfo) => void;
+
+export type BlokrInstance = Blokr;
+
+interface ListEntry {
+  elements: Element[];
+  instance: Blokr;
+}
+
+const blokrs = new WeakMap<Element | ArrayLike<Element> | typeof globalThis, Blokr>();
+
+// Instances for element lists, filed under each of their elements so that lists of the same elements share one
+const listBlokrs = new WeakMap<Element, ListEntry[]>();
+
+const selectorBlokrs = new Map<string, Blokr>();
+
+const allowAttribute = 'data-blokr-allow';
+
+// Events that a keystroke goes on to produce without being keyboard events themselves
+const keyEffectEventNames = ['beforeinput', 'input', 'copy', 'cut', 'paste'];
+
+// Events the guard option listens for in addition to the blocked events
+const guardEventNames = ['submit', 'click', 'auxclick'];
+
+const linkSelector = 'a[href], area[href]';
+
+/**
+ * Asks the user to confirm leaving the page.
+ * @param evt - The beforeunload event.
+ */
+const confirmUnload = (evt: Event) => {
+  evt.preventDefault();
+  // Browsers that predate cancelling beforeunload only ask when a return value is set
+  (evt as { returnValue: unknown }).returnValue = true;
+};
+
+// Stacked 'outside' locks, bottom first; only the topmost one is active
+const stack: Blokr[] = [];
+
+// Locked instances in the order they were locked
+const active = new Set<Blokr>();
+
+let debugOptions: DebugOptions | undefined;
+
+let debugTimerId: number | undefined;
+
+const issuedWarnings = new WeakMap<Blokr, WarningType[]>();
+
+/**
+ * Checks whether every element of a target has been removed from the document.
+ * Selectors never count as detached, since matching elements may be inserted later.
+ * @param target - The target to check.
+ * @returns true if the target is detached.
+ */
+const isDetached = (target: Target) => {
+  if (typeof target === 'string') {
+    return false;
+  }
+  const elements = isElement(target) ? [target] : Array.from(target);
+  return elements.length > 0 && elements.every(element => !element.isConnected);
+};
+
+/**
+ * Warns about locks that have been held too long or whose target has left the document.
+ * Each kind of warning is issued once per lock.
+ */
+const inspect = () => {
+  const now = Date.now();
+  const maxAge = debugOptions?.maxAge ?? 30000;
+  const onWarning = debugOptions?.onWarning ?? (({ message, info }: DebugWarning) => console.warn(message, info));
+
+  active.forEach(instance => {
+    const issued = issuedWarnings.get(instance) ?? [];
+    const warn = (type: WarningType, message: string) => {
+      if (issued.indexOf(type) < 0) {
+        issued.push(type);
+        issuedWarnings.set(instance, issued);
+
+        const info = instance.info();
+        if (info) {
+          onWarning({ type, message: `[blokr] ${message}`, info });
+        }
+      }
+    };
+    const info = instance.info();
+    const name = info?.label ? `Lock "${info.label}"` : 'Lock';
+
+    if (info && now - info.lockedAt >= maxAge) {
+      warn('age', `${name} has been held for over ${String(maxAge)}ms. Was unlock() forgotten?`);
+    }
+    if (info?.target && isDetached(info.target)) {
+      warn('detached', `${name} is still held although its target has been removed from the document.`);
+    }
+  });
+};
+
+/**
+ * Checks whether an element is one of the elements a target stands for.
+ * Selectors are evaluated at the time of the check, so newly inserted matching elements are covered.
+ * @param target - An element, a list of elements, or a selector.
+ * @param element - The element to check.
+ * @returns true if the element is one of the target's elements.
+ */
+const matchesTarget = (target: Target, element: Element) => {
+  if (typeof target === 'string') {
+    return element.matches(target);
+  }
+  if (isElement(target)) {
+    return element === target;
+  }
+  return Array.prototype.indexOf.call(target, element) >= 0;
+};
+
+/**
+ * Resolves a target to the elements it currently stands for in the document.
+ * @param target - The target, or undefined for none.
+ * @returns Target elements, or an empty list without a target.
+ */
+const elementsOf = (target: Target | undefined): Element[] => {
+  if (typeof target === 'string') {
+    return Array.from(document.querySelectorAll(target));
+  }
+  if (!target) {
+    return [];
+  }
+  return isElement(target) ? [target] : Array.from(target);
+};
+
+/**
+ * Checks whether the event comes from within an element that satisfies the predicate,
+ * looking through shadow boundaries and out of same-origin frames.
+ * @param evt - The event.
+ * @param eventTarget - The innermost element the event was dispatched to.
+ * @param predicate - The test applied to the elements the event comes from within.
+ * @returns true if any such element satisfies the predicate.
+ */
+const comesFromWithin = (evt: Event, eventTarget: Element, predicate: (element: Element) => boolean) => {
+  return evt.composedPath().some(node => isElement(node) && predicate(node)) ||
+    frameElementsOf(eventTarget).some(frame => someComposedAncestor(frame, predicate));
+};
+
+const subscribers = new Set<Subscriber>();
+
+const blockedCallbacks = new Set<BlockedCallback>();
+
+/**
+ * Wraps a blocked callback so that it runs at most once per interval.
+ * @param callback - The callback to throttle.
+ * @param [wait] - Minimum interval between calls in milliseconds.
+ * @returns The throttled callback.
+ */
+const throttle = (callback: BlockedCallback, wait = 0): BlockedCallback => {
+  let last = -Infinity;
+
+  return (evt, info) => {
+    const now = Date.now();
+
+    if (now - last >= wait) {
+      last = now;
+      callback(evt, info);
+    }
+  };
+};
 
 class Blokr {
-  private _target: Element | undefined;
+  private _target: Target | undefined;
 
   private _timerId: number | undefined;
 
   private _filter: Filter | undefined;
 
+  private _focusTrap: FocusTrap | undefined;
+
+  private _a11y: A11yState | undefined;
+
+  private _indicator: Indicator | undefined;
+
+  private _scrollLock: ScrollLock | undefined;
+
+  private _guardsUnload: boolean;
+
+  private _handles: Set<LockHandle>;
+
+  private _held: boolean;
+
+  private _cleanups: (() => void)[];
+
+  private _subscribers: Set<Subscriber>;
+
+  private _context: LockContext | undefined;
+
+  private _options: Options;
+
+  private _lockedAt: number;
+
+  private _deadline: number;
+
+  private _stack: string | undefined;
+
+  private _pendingId: number | undefined;
+
+  private _releaseId: number | undefined;
+
   /**
    * Creates the Blokr singleton instance.
    */
-  constructor (target?: Element) {
+  constructor (target?: Target) {
     this._target = target;
     this._timerId = undefined;
+    this._handles = new Set();
+    this._held = false;
+    this._cleanups = [];
+    this._subscribers = new Set();
+    this._context = undefined;
+    this._options = {};
+    this._lockedAt = 0;
+    this._deadline = 0;
+    this._stack = undefined;
+    this._pendingId = undefined;
+    this._releaseId = undefined;
+    this._guardsUnload = false;
   }
 
   /**
    * Locks user interactions with optional timeout and scope configuration.
-   * Returns false if already locked without making any changes.
+   * Returns false if already locked or pending without making any changes.
+   * With `delay`, the lock is pending until the delay has elapsed and only engages if it has not been
+   * unlocked in the meantime. Locking again while a `minDuration` release is deferred keeps the lock.
+   * With `handle: true`, returns a handle instead and joins the lock if it is already applied;
+   * the lock is then held until every handle has been released.
    * @param [options] - Lock configuration options.
-   * @returns true if lock was applied, false if already locked.
+   * @returns true if lock was applied, false if already locked, or a handle if requested.
    */
-  lock (options?: Options) {
-    if (this.isLocked()) {
+  lock (options: HandleOptions): LockHandle;
+  lock (options?: Options): boolean;
+  lock (options?: Options & { handle?: boolean }) {
+    const signal = options?.signal;
+
+    if (options?.handle) {
+      const handle = new LockHandle(h => this._release(h));
+
+      // A handle for an already aborted operation is returned released
+      if (signal?.aborted) {
+        return handle;
+      }
+      if (!this.isLocked() && !this.isPending()) {
+        this._request(options);
+      }
+      this._keep();
+      this._handles.add(handle);
+      this._releaseOnAbort(signal, () => this._release(handle, 'abort'));
+      return handle;
+    }
+    // Owned locks are either pending or engaged; an engaged lock without owners is awaiting release
+    if (this._held || this._handles.size || signal?.aborted) {
       return false;
     }
+    if (!this.isLocked()) {
+      this._request(options);
+    }
+    this._keep();
+    this._held = true;
+    this._releaseOnAbort(signal, () => {
+      // The signal belongs to the plain hold, which unlock() may have released already
+      if (this._held) {
+        this._unlock('abort');
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Locks user interactions while the work is pending and unlocks once it settles.
+   * Holds the lock through a handle, so overlapping calls keep the instance locked until all have settled.
+   * @param work - A promise, or a function returning one.
+   * @param [options] - Lock configuration options.
+   * @returns A promise settling with the outcome of the work.
+   */
+  async lockWhile<T> (work: PromiseLike<T> | (() => PromiseLike<T>), options?: Options) {
+    const handle = this.lock({ ...options, handle: true });
+
+    try {
+      return await (typeof work === 'function' ? work() : work);
+    } finally {
+      handle.release();
+    }
+  }
+
+  /**
+   * Calls the release function when the signal aborts, until the lock is released.
+   * @param signal - The signal to watch, if any.
+   * @param release - Releases the owner the signal belongs to.
+   */
+  private _releaseOnAbort (signal: AbortSignal | undefined, release: () => void) {
+    if (signal) {
+      signal.addEventListener('abort', release, { once: true });
+      this._cleanups.push(() => signal.removeEventListener('abort', release));
+    }
+  }
+
+  /**
+   * Releases one handle, unlocking once no owner holds the lock anymore.
+   * Handles left over from a lock that has since been unlocked are ignored.
+   * @param handle - The handle being released.
+   * @param [reason] - Why the handle is being released.
+   */
+  private _release (handle: LockHandle, reason: UnlockReason = 'manual') {
+    if (this._handles.delete(handle) && !this._handles.size && !this._held) {
+      this._unlock(reason);
+    }
+  }
 
+  /**
+   * Engages the lock right away, or once the `delay` option has elapsed.
+   * @param [options] - Lock configuration options.
+   */
+  private _request (options?: Options) {
+    const delay = options?.delay ?? 0;
+
+    if (delay > 0) {
+      this._pendingId = globalThis.setTimeout(() => {
+        this._pendingId = undefined;
+        this._apply(options);
+      }, delay);
+      active.add(this);
+      this._emit('pending');
+    } else {
+      this._apply(options);
+    }
+  }
+
+  /**
+   * Cancels a release deferred by the `minDuration` option, keeping the lock engaged.
+   */
+  private _keep () {
+    if (this._releaseId) {
+      globalThis.clearTimeout(this._releaseId);
+      this._releaseId = undefined;
+    }
+  }
+
+  /**
+   * Registers the filter and starts the focus trap and timeout for a new lock.
+   * @param [options] - Lock configuration options.
+   */
+  private _apply (options?: Options) {
     const scope = options?.scope ?? 'inside';
     const timeout = options?.timeout ?? 0;
+    const readonly = options?.mode === 'readonly';
+    const undoTextEntry = options?.undoTextEntry ?? false;
+    // Unless the change is undone, swallowing these events would only keep the page from seeing it
+    const eventNames = resolveEventNames(options?.events ?? (readonly ? readonlyEventTypes : undefined))
+      .filter(name => undoTextEntry || uncancellableEventNames.indexOf(name) < 0);
+    const guardNames = options?.guard ? guardEventNames.filter(name => eventNames.indexOf(name) < 0) : [];
+    const allowsKey = createKeyMatcher(options?.keys?.allow ?? []);
+    const blocksKey = options?.keys?.block ? createKeyMatcher(options.keys.block) : () => true;
+
+    const frames = options?.frames ?? false;
+    const onBlocked = options?.onBlocked && throttle(options.onBlocked, options.blockedThrottle);
+    const predicate = options?.filter;
+    const except = options?.except;
+    // Elements carrying the allow attribute stay interactive under every lock
+    const isExempt = (element: Element) => {
+      return element.hasAttribute(allowAttribute) || (!!except && matchesTarget(except, element));
+    };
+    const context: LockContext = { instance: this, target: this._target, scope };
+    const stacked = !!options?.stack && scope === 'outside';
+    let attempts = 0;
+    let passedKeyId: number | undefined;
 
-    this._filter = (eventTarget: Element) => {
-      if (this._target) {
-        if (scope === 'self') {
-          return this._target === eventTarget;
+    this._filter = (eventTarget: Element, evt: Event) => {
+      // Stacked locks are suspended while another stacked lock is on top of them
+      if (stacked && stack[stack.length - 1] !== this) {
+        return false;
+      }
+      // Events from child frames are only considered by locks that opted in
+      if (!frames && eventTarget.ownerDocument !== globalThis.document) {
+        return false;
+      }
+      if (comesFromWithin(evt, eventTarget, isExempt)) {
+        return false;
+      }
+      // Clicks that are only listened for by the guard matter only when they would follow a link
+      if (evt.type !== 'submit' && guardNames.indexOf(evt.type) >= 0 &&
+        !comesFromWithin(evt, eventTarget, element => element.matches(linkSelector))) {
+        return false;
+      }
+      // Keys that are allowed, or not on an explicit block list, always pass through,
+      // together with the text entry and clipboard events they produce within the same task
+      if (isKeyboardEvent(evt)) {
+        if (allowsKey(evt) || !blocksKey(evt)) {
+          if (evt.type === 'keydown') {
+            globalThis.clearTimeout(passedKeyId);
+            passedKeyId = globalThis.setTimeout(() => {
+              passedKeyId = undefined;
+            });
+          }
+          return false;
         }
-        const contains = this._target.contains(eventTarget);
-        // For 'outside' scope, block events outside target; otherwise block events inside target
-        return scope === 'outside' ? !contains : contains;
+      } else if (passedKeyId !== undefined && keyEffectEventNames.indexOf(evt.type) >= 0) {
+        return false;
       }
-      // No target specified: block all events
-      return true;
+      if (readonly && guardNames.indexOf(evt.type) < 0 &&
+        allowsInReadonly(evt, comesFromWithin(evt, eventTarget, element => element.matches(controlSelector)))) {
+        return false;
+      }
+      // A custom predicate can only narrow down the events in scope
+      return this._inScope(scope, eventTarget, evt) && (!predicate || predicate(evt, eventTarget, context));
     };
-    lock.register(this._filter);
+    lock.register(this._filter, eventNames.concat(guardNames), {
+      frames,
+      undoTextEntry,
+      onBlock: evt => {
+        const info: BlockedInfo = { ...context, attempts: ++attempts };
+
+        onBlocked?.(evt, info);
+        blockedCallbacks.forEach(callback => callback(evt, info));
+      }
+    });
+
+    // Focus containment only makes sense when everything outside the target is blocked
+    const trapTarget = this._elements()[0] as Element | undefined;
+
+    if (stacked) {
+      stack[stack.length - 1]?._a11y?.pause();
+      stack[stack.length - 1]?._focusTrap?.pause();
+      stack.push(this);
+    }
+    if (options?.trapFocus && trapTarget && scope === 'outside') {
+      this._focusTrap = new FocusTrap(trapTarget);
+      this._focusTrap.activate();
+    }
+    // Applied after the focus trap has saved the focused element, which inert would blur
+    if (options?.a11y) {
+      const exempt = Array.from(document.querySelectorAll(`[${allowAttribute}]`)).concat(elementsOf(except));
+
+      this._a11y = new A11yState(
+        this._elements(), scope === 'outside', exempt, options.a11y === true ? {} : options.a11y
+      );
+      this._a11y.apply();
+    }
+    if (options?.indicator) {
+      this._indicator = new Indicator(this._elements(), scope, options.indicator === true ? {} : options.indicator);
+      this._indicator.apply();
+    }
+    // Leaving the page can only be guarded against while the whole page is locked
+    if (options?.guard && !this._target) {
+      globalThis.addEventListener('beforeunload', confirmUnload);
+      this._guardsUnload = true;
+    }
+    // An outside lock keeps its target usable, so it is the page behind it that stops scrolling
+    if (options?.scroll) {
+      this._scrollLock = new ScrollLock(scope === 'outside' ? [] : this._elements());
+      this._scrollLock.apply();
+    }
+
+    this._context = context;
+    this._options = { ...options };
+    this._lockedAt = Date.now();
+    this._startTimer(timeout);
+    // Recording where the lock was applied helps find the code path that never unlocks
+    this._stack = debugOptions ? new Error('Locked').stack : undefined;
+    issuedWarnings.delete(this);
+    active.add(this);
+    this._emit('lock');
+  }
+
+  /**
+   * Schedules the timeout of the current lock, replacing any pending one.
+   * @param timeout - Milliseconds from now until the lock is released, or 0 for no timeout.
+   */
+  private _startTimer (timeout: number) {
+    if (this._timerId) {
+      globalThis.clearTimeout(this._timerId);
+      this._timerId = undefined;
+    }
+    this._deadline = timeout > 0 ? Date.now() + timeout : 0;
 
     if (timeout > 0) {
-      this._timerId = globalThis.setTimeout(() => this.unlock(), timeout);
+      this._timerId = globalThis.setTimeout(() => {
+        const context = this._context;
+        const onTimeout = this._options.onTimeout;
+
+        this._timerId = undefined;
+        this._unlock('timeout');
+        if (context) {
+          onTimeout?.(context);
+        }
+      }, timeout);
     }
+  }
+
+  /**
+   * Restarts the timeout of the current lock, e.g. when a long-running operation reports progress.
+   * @param [timeout] - Milliseconds from now until the lock is released. Defaults to the
+   * `timeout` option the lock was applied with. 0 removes the timeout.
+   * @returns true if the timeout was reset, false if not locked.
+   */
+  resetTimeout (timeout?: number) {
+    if (!this._context) {
+      return false;
+    }
+    this._startTimer(timeout ?? this._options.timeout ?? 0);
+    return true;
+  }
+
+  /**
+   * Returns the time left until the current lock times out.
+   * @returns Milliseconds until the timeout fires, or undefined if not locked or without a timeout.
+   */
+  remaining () {
+    return this._context && this._deadline ? Math.max(0, this._deadline - Date.now()) : undefined;
+  }
+
+  /**
+   * Checks whether an event falls within the scope of this instance's target.
+   * @param scope - The lock scope.
+   * @param eventTarget - The innermost element the event was dispatched to.
+   * @param evt - The event.
+   * @returns true if the event is in scope.
+   */
+  private _inScope (scope: Scope, eventTarget: Element, evt: Event) {
+    const target = this._target;
+
+    if (target) {
+      const isTarget = (element: Element) => matchesTarget(target, element);
 
+      if (scope === 'self') {
+        // A shadow host also counts as the target of events from within its own shadow tree
+        return isTarget(eventTarget) || (isElement(evt.target) && isTarget(evt.target));
+      }
+      // Unlike contains(), the composed path crosses shadow boundaries in both directions,
+      // and the contents of a frame count as inside its frame element
+      const contains = comesFromWithin(evt, eventTarget, isTarget);
+      // For 'outside' scope, block events outside target; otherwise block events inside target
+      return scope === 'outside' ? !contains : contains;
+    }
+    // No target specified: block all events
     return true;
   }
 
+  /**
+   * Returns the target elements as they are currently found in the document.
+   * @returns Target elements, or an empty list for the global instance.
+   */
+  private _elements (): Element[] {
+    return elementsOf(this._target);
+  }
+
+  /**
+   * Notifies the instance's subscribers and then the global subscribers of a state change.
+   * @param type - The kind of state change.
+   * @param [reason] - Why the lock was released, for unlock changes.
+   */
+  private _emit (type: LockEvent['type'], reason?: UnlockReason) {
+    const evt: LockEvent = { type, instance: this, target: this._target, reason };
+
+    this._subscribers.forEach(subscriber => subscriber(evt));
+    subscribers.forEach(subscriber => subscriber(evt));
+  }
+
+  /**
+   * Subscribes to lock and unlock changes of this instance.
+   * @param subscriber - Called with each state change.
+   * @returns A function that removes the subscription.
+   */
+  subscribe (subscriber: Subscriber) {
+    this._subscribers.add(subscriber);
+    return () => {
+      this._subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Describes the current lock for introspection.
+   * @returns Details of the lock, or undefined if not locked.
+   */
+  info (): LockInfo | undefined {
+    if (!this._context) {
+      return undefined;
+    }
+    return {
+      ...this._context,
+      label: this._options.label,
+      options: { ...this._options },
+      lockedAt: this._lockedAt,
+      remaining: this.remaining(),
+      suspended: stack.indexOf(this) >= 0 && stack[stack.length - 1] !== this,
+      stack: this._stack,
+      warnings: (issuedWarnings.get(this) ?? []).slice()
+    };
+  }
+
   /**
    * Checks if user interactions are currently locked.
+   * A lock waiting for its `delay` to elapse is not locked yet.
    * @returns true if locked, false otherwise.
    */
   isLocked () {
@@ -69,22 +704,134 @@ class Blokr {
   }
 
   /**
-   * Unlocks user interactions and clears any pending timeout.
+   * Checks if a lock has been requested with a `delay` that has not elapsed yet.
+   * @returns true if pending, false otherwise.
+   */
+  isPending () {
+    return !!this._pendingId;
+  }
+
+  /**
+   * Unlocks user interactions, clears any pending timeout and releases the focus trap.
+   * Releases only the hold taken by lock() without a handle, so the lock stays engaged until
+   * every outstanding handle has been released too. Cancels a pending lock.
+   * With `minDuration`, the lock stays engaged until the minimum duration has passed.
    * Safe to call even when not locked.
    */
   unlock () {
-    if (this._timerId) {
-      globalThis.clearTimeout(this._timerId);
-      this._timerId = undefined;
+    this._held = false;
+    if (!this._handles.size) {
+      this._unlock('manual');
+    }
+  }
+
+  /**
+   * Unlocks every locked instance for all of its owners, including outstanding handles.
+   */
+  static unlockAll () {
+    Array.from(active).forEach(instance => instance._unlock('manual'));
+  }
+
+  /**
+   * Releases the lock and notifies subscribers if it was pending or applied.
+   * @param reason - Why the lock is being released.
+   */
+  private _unlock (reason: UnlockReason) {
+    const locked = this.isLocked() || this.isPending();
+    // The timeout is a safety net, so it is not held back by the minimum duration
+    const rest = this.isLocked() && reason !== 'timeout' ? this._lockedAt + (this._options.minDuration ?? 0) - Date.now() : 0;
+
+    this._handles.clear();
+    this._held = false;
+    this._cleanups.splice(0).forEach(cleanup => cleanup());
+
+    // Keep a lock that engaged only moments ago until its minimum duration has passed
+    if (rest > 0) {
+      this._releaseId ??= globalThis.setTimeout(() => {
+        this._releaseId = undefined;
+        this._unlock(reason);
+      }, rest);
+      return;
+    }
+    this._keep();
+    if (this._pendingId) {
+      globalThis.clearTimeout(this._pendingId);
+      this._pendingId = undefined;
     }
+    this._startTimer(0);
     if (this._filter) {
       lock.unregister(this._filter);
     }
     this._filter = undefined;
+    this._context = undefined;
+    active.delete(this);
+
+    const index = stack.indexOf(this);
+    // Only the topmost stacked lock owns focus; a suspended one must not pull it away
+    const top = index === stack.length - 1;
+
+    if (index >= 0) {
+      stack.splice(index, 1);
+    }
+    // Reverted before focus is restored, since inert elements cannot take focus
+    this._a11y?.revert();
+    this._a11y = undefined;
+    this._indicator?.revert();
+    this._indicator = undefined;
+    this._scrollLock?.revert();
+    this._scrollLock = undefined;
+    if (this._guardsUnload) {
+      globalThis.removeEventListener('beforeunload', confirmUnload);
+      this._guardsUnload = false;
+    }
+    if (this._focusTrap) {
+      this._focusTrap.deactivate(index < 0 || top);
+      this._focusTrap = undefined;
+    }
+    if (index >= 0 && top) {
+      stack[stack.length - 1]?._a11y?.resume();
+      stack[stack.length - 1]?._focusTrap?.resume();
+    }
+    if (locked) {
+      this._emit('unlock', reason);
+    }
   }
 }
 
-const blokr = (target?: Element) => {
+/**
+ * Checks whether two lists hold the same elements, in any order.
+ * @param a - Elements without duplicates.
+ * @param b - Elements without duplicates.
+ * @returns true if both lists hold the same elements.
+ */
+const sameElements = (a: Element[], b: Element[]) => {
+  return a.length === b.length && a.every(element => b.indexOf(element) >= 0);
+};
+
+const blokr = (target?: Target) => {
+  if (typeof target === 'string') {
+    return selectorBlokrs.get(target) ?? (() => {
+      const instance = new Blokr(target);
+      selectorBlokrs.set(target, instance);
+      return instance;
+    })();
+  }
+  if (target && !isElement(target)) {
+    const elements = Array.from(new Set(Array.from(target)));
+    const entries = elements.length ? listBlokrs.get(elements[0]) : undefined;
+    const entry = entries?.find(({ elements: others }) => sameElements(others, elements));
+
+    if (entry) {
+      return entry.instance;
+    }
+    if (elements.length) {
+      const instance = new Blokr(target);
+      elements.forEach(element => {
+        listBlokrs.set(element, (listBlokrs.get(element) ?? []).concat({ elements, instance }));
+      });
+      return instance;
+    }
+  }
   return blokrs.get(target ?? globalThis) ?? (() => {
     const instance = new Blokr(target);
     blokrs.set(target ?? globalThis, instance);
@@ -92,4 +839,66 @@ const blokr = (target?: Element) => {
   })();
 };
 
+/**
+ * Subscribes to lock and unlock changes of every instance.
+ * @param subscriber - Called with each state change.
+ * @returns A function that removes the subscription.
+ */
+blokr.subscribe = (subscriber: Subscriber) => {
+  subscribers.add(subscriber);
+  return () => {
+    subscribers.delete(subscriber);
+  };
+};
+
+/**
+ * Registers a callback for interactions blocked by any instance.
+ * @param callback - Called with each blocked event and the lock responsible.
+ * @param [wait] - Minimum interval between calls in milliseconds.
+ * @returns A function that removes the callback.
+ */
+blokr.onBlocked = (callback: BlockedCallback, wait?: number) => {
+  const throttled = throttle(callback, wait);
+
+  blockedCallbacks.add(throttled);
+  return () => {
+    blockedCallbacks.delete(throttled);
+  };
+};
+
+/**
+ * Lists every locked instance, in the order they were locked.
+ * @returns Details of each active lock.
+ */
+blokr.active = () => {
+  return Array.from(active)
+    .map(instance => instance.info())
+    .filter((info): info is LockInfo => !!info);
+};
+
+/**
+ * Unlocks every locked instance for all of its owners, e.g. on route changes or in error boundaries.
+ */
+blokr.unlockAll = () => {
+  Blokr.unlockAll();
+};
+
+/**
+ * Enables or disables the development-mode diagnostics.
+ * While enabled, the call stack of each lock is recorded, and locks that are held too long
+ * or whose target has been removed from the document are reported.
+ * @param [options] - Diagnostics options, true for the defaults, or false to disable.
+ */
+blokr.debug = (options: DebugOptions | boolean = true) => {
+  if (debugTimerId) {
+    globalThis.clearInterval(debugTimerId);
+    debugTimerId = undefined;
+  }
+  debugOptions = options === true ? {} : options || undefined;
+
+  if (debugOptions) {
+    debugTimerId = globalThis.setInterval(inspect, debugOptions.interval ?? 1000);
+  }
+};
+
 export default blokr;
@@ -0,0 +1,110 @@
+/**
+ * Checks whether a value is an Element from any realm.
+ * `instanceof Element` fails for nodes that belong to another window, such as a child frame.
+ * @param value - The value to check.
+ * @returns true if the value is an Element.
+ */
+export const isElement = (value: unknown): value is Element => {
+  return typeof value === 'object' && value !== null && (value as Partial<Node>).nodeType === 1;
+};
+
+/**
+ * Checks whether an event is a KeyboardEvent from any realm.
+ * @param evt - The event to check.
+ * @returns true if the event is a KeyboardEvent.
+ */
+export const isKeyboardEvent = (evt: Event): evt is KeyboardEvent => {
+  return typeof (evt as Partial<KeyboardEvent>).key === 'string';
+};
+
+/**
+ * Checks whether the node or any of its ancestors satisfies the predicate, crossing
+ * shadow boundaries from shadow roots to their hosts.
+ * @param node - The node to start from.
+ * @param predicate - The test applied to each element on the way up.
+ * @returns true if an element satisfies the predicate.
+ */
+export const someComposedAncestor = (node: Node, predicate: (element: Element) => boolean) => {
+  let current: Node | null = node;
+
+  while (current) {
+    if (isElement(current) && predicate(current)) {
+      return true;
+    }
+    current = current.parentNode ?? (current as Partial<ShadowRoot>).host ?? null;
+  }
+  return false;
+};
+
+/**
+ * Lists the frame elements between the node's document and this window, innermost first.
+ * The walk stops at this window, so the pages embedding it are never included, and at the
+ * first cross-origin boundary.
+ * @param node - The node to start from.
+ * @returns Embedding frame elements.
+ */
+export const frameElementsOf = (node: Node) => {
+  const frames: Element[] = [];
+  let win = node.ownerDocument?.defaultView;
+
+  while (win && win !== globalThis.window) {
+    const frame: Element | null = win.frameElement;
+
+    if (!frame) {
+      break;
+    }
+    frames.push(frame);
+    win = frame.ownerDocument.defaultView;
+  }
+  return frames;
+};
+
+/**
+ * Returns the element that has focus, descending into open shadow roots, since the
+ * document only reports the outermost shadow host.
+ * @param doc - The document to look in.
+ * @returns The innermost focused element, or null.
+ */
+export const deepActiveElement = (doc: Document) => {
+  let active = doc.activeElement;
+
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active;
+};
+
+/**
+ * Lists the elements outside the given ones: the siblings of each element and of each of its
+ * ancestors up to the body. Without elements, every child of the body is outside.
+ * @param elements - The elements to stay outside of.
+ * @returns Elements whose subtrees contain none of the given elements.
+ */
+export const elementsOutside = (elements: Element[]) => {
+  const body = document.body;
+  const keep = new Set<Element>();
+  const containers = new Set<Element>([body]);
+  const outside: Element[] = [];
+
+  elements.forEach(element => {
+    for (let current: Element | null = element; current && current !== body; current = current.parentElement) {
+      keep.add(current);
+    }
+  });
+  keep.forEach(element => {
+    const parent = element.parentElement;
+
+    // Children of a target stay interactive, even when another target is nested among them
+    if (parent && !elements.some(target => target.contains(parent))) {
+      containers.add(parent);
+    }
+  });
+  containers.forEach(container => {
+    Array.from(container.children).forEach(child => {
+      if (!keep.has(child)) {
+        outside.push(child);
+      }
+    });
+  });
+  return outside;
+};
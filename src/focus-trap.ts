@@ -0,0 +1,181 @@
+import { deepActiveElement, someComposedAncestor } from './dom.ts';
+
+const tabbableSelector = [
+  'a[href]', 'area[href]', 'button', 'input', 'select', 'textarea',
+  'iframe', 'summary', '[contenteditable]', '[tabindex]'
+].join(',');
+
+/**
+ * Moves focus to the element and reports whether it actually received focus.
+ * Elements that are hidden or otherwise unfocusable silently ignore focus().
+ * @param element - The element to focus.
+ * @returns true if the element became the active element.
+ */
+const tryFocus = (element: HTMLElement) => {
+  element.focus();
+  return deepActiveElement(element.ownerDocument) === element;
+};
+
+/**
+ * Collects the elements matching the tabbable selector below a root, including the contents
+ * of open shadow roots, which querySelectorAll does not enter.
+ * @param root - The element or shadow root to search.
+ * @param found - Receives the matching elements in tree order.
+ */
+const collectTabbables = (root: Element | ShadowRoot, found: HTMLElement[]) => {
+  Array.from(root.children).forEach(child => {
+    if (child.matches(tabbableSelector)) {
+      found.push(child as HTMLElement);
+    }
+    if (child.shadowRoot) {
+      collectTabbables(child.shadowRoot, found);
+    }
+    collectTabbables(child, found);
+  });
+};
+
+class FocusTrap {
+  private _target: Element;
+
+  private _previous: Element | null;
+
+  private _tabIndexAdded: boolean;
+
+  private _focusinHandler: (evt: FocusEvent) => void;
+
+  private _keydownHandler: (evt: KeyboardEvent) => void;
+
+  /**
+   * Creates a focus trap that keeps focus within the target element.
+   * @param target - The element focus is contained in.
+   */
+  constructor (target: Element) {
+    this._target = target;
+    this._previous = null;
+    this._tabIndexAdded = false;
+    this._focusinHandler = this._focusin.bind(this);
+    this._keydownHandler = this._keydown.bind(this);
+  }
+
+  /**
+   * Returns the tabbable descendants of the target in tree order, including those in shadow trees.
+   * @returns Tabbable elements.
+   */
+  private _tabbables () {
+    const found: HTMLElement[] = [];
+
+    collectTabbables(this._target.shadowRoot ?? this._target, found);
+    if (this._target.shadowRoot) {
+      collectTabbables(this._target, found);
+    }
+    return found.filter(element => element.tabIndex >= 0 && !element.matches(':disabled'));
+  }
+
+  /**
+   * Checks whether the element is the target or lies within it, across shadow boundaries.
+   * @param element - The element to check.
+   * @returns true if the element is within the target.
+   */
+  private _contains (element: Element) {
+    return someComposedAncestor(element, ancestor => ancestor === this._target);
+  }
+
+  /**
+   * Focuses the first element in the list that can take focus, falling back to the target itself.
+   * @param candidates - Elements to try in order.
+   */
+  private _focusInto (candidates: HTMLElement[]) {
+    for (const candidate of candidates) {
+      if (tryFocus(candidate)) {
+        return;
+      }
+    }
+    const target = this._target as HTMLElement;
+
+    if (!target.hasAttribute('tabindex')) {
+      target.setAttribute('tabindex', '-1');
+      this._tabIndexAdded = true;
+    }
+    tryFocus(target);
+  }
+
+  /**
+   * Pulls focus back into the target when it lands anywhere outside.
+   * @param evt - The focusin event.
+   */
+  private _focusin (evt: FocusEvent) {
+    if (evt.composedPath().indexOf(this._target) < 0) {
+      this._focusInto(this._tabbables());
+    }
+  }
+
+  /**
+   * Wraps Tab and Shift+Tab around the first and last tabbable descendants.
+   * @param evt - The keydown event.
+   */
+  private _keydown (evt: KeyboardEvent) {
+    if (evt.key !== 'Tab' || evt.defaultPrevented) {
+      return;
+    }
+    const tabbables = this._tabbables();
+    const active = deepActiveElement(this._target.ownerDocument);
+    const index = active ? tabbables.indexOf(active as HTMLElement) : -1;
+
+    if (evt.shiftKey ? index <= 0 : index < 0 || index === tabbables.length - 1) {
+      evt.preventDefault();
+      this._focusInto(evt.shiftKey ? tabbables.reverse() : tabbables);
+    }
+  }
+
+  /**
+   * Moves focus into the target and starts containing it there.
+   */
+  activate () {
+    this._previous = deepActiveElement(this._target.ownerDocument);
+    this.resume();
+  }
+
+  /**
+   * Stops containing focus without giving up the trap, e.g. while another trap is on top.
+   */
+  pause () {
+    const doc = this._target.ownerDocument;
+
+    doc.removeEventListener('focusin', this._focusinHandler, true);
+    doc.removeEventListener('keydown', this._keydownHandler, true);
+  }
+
+  /**
+   * Resumes containing focus, pulling it back into the target if it is elsewhere.
+   */
+  resume () {
+    const doc = this._target.ownerDocument;
+    const active = deepActiveElement(doc);
+
+    doc.addEventListener('focusin', this._focusinHandler, true);
+    doc.addEventListener('keydown', this._keydownHandler, true);
+
+    if (!active || !this._contains(active)) {
+      this._focusInto(this._tabbables());
+    }
+  }
+
+  /**
+   * Stops containing focus and restores focus to the element that had it before activation.
+   * @param [restore] - Whether to restore focus.
+   */
+  deactivate (restore = true) {
+    this.pause();
+
+    if (this._tabIndexAdded) {
+      this._target.removeAttribute('tabindex');
+      this._tabIndexAdded = false;
+    }
+    if (restore && this._previous?.isConnected && 'focus' in this._previous) {
+      (this._previous as HTMLElement).focus();
+    }
+    this._previous = null;
+  }
+}
+
+export default FocusTrap;
@@ -0,0 +1,123 @@
+type FrameCallback = (win: Window) => void;
+
+class FrameWatcher {
+  private _windows: Set<Window>;
+
+  private _frames: Set<HTMLIFrameElement>;
+
+  private _observer: MutationObserver | undefined;
+
+  private _attach: FrameCallback;
+
+  private _detach: FrameCallback;
+
+  private _loadHandler: (evt: Event) => void;
+
+  /**
+   * Creates a watcher that tracks same-origin child frames, including frames added later.
+   * @param attach - Called for each same-origin frame window that appears.
+   * @param detach - Called for each frame window that disappears or becomes cross-origin.
+   */
+  constructor (attach: FrameCallback, detach: FrameCallback) {
+    this._windows = new Set();
+    this._frames = new Set();
+    this._observer = undefined;
+    this._attach = attach;
+    this._detach = detach;
+    this._loadHandler = this._load.bind(this);
+  }
+
+  /**
+   * Returns the frame windows currently attached.
+   * @returns Attached frame windows.
+   */
+  windows () {
+    return Array.from(this._windows);
+  }
+
+  /**
+   * Re-attaches a frame after navigation, since listeners do not survive a new document.
+   * @param evt - The load event of the frame element.
+   */
+  private _load (evt: Event) {
+    const win = (evt.target as HTMLIFrameElement).contentWindow;
+
+    if (win) {
+      this._windows.delete(win);
+    }
+    this._scan();
+  }
+
+  /**
+   * Walks the document and nested same-origin frames, attaching new frame windows
+   * and detaching the ones that are gone.
+   */
+  private _scan () {
+    const found = new Set<Window>();
+    const visit = (doc: Document) => {
+      this._observer?.observe(doc, { childList: true, subtree: true });
+
+      Array.from(doc.querySelectorAll('iframe')).forEach(frame => {
+        const win = frame.contentWindow;
+        // contentDocument is null for cross-origin frames
+        const frameDoc = frame.contentDocument;
+
+        if (!this._frames.has(frame)) {
+          frame.addEventListener('load', this._loadHandler);
+          this._frames.add(frame);
+        }
+        if (win && frameDoc) {
+          found.add(win);
+          if (!this._windows.has(win)) {
+            this._windows.add(win);
+            this._attach(win);
+          }
+          visit(frameDoc);
+        }
+      });
+    };
+
+    visit(document);
+    this._frames.forEach(frame => {
+      if (!frame.isConnected) {
+        frame.removeEventListener('load', this._loadHandler);
+        this._frames.delete(frame);
+      }
+    });
+    this._windows.forEach(win => {
+      if (!found.has(win)) {
+        this._windows.delete(win);
+        this._detach(win);
+      }
+    });
+  }
+
+  /**
+   * Starts tracking child frames. Does nothing if already started.
+   */
+  start () {
+    if (this._observer || !('MutationObserver' in globalThis)) {
+      return;
+    }
+    this._observer = new MutationObserver(() => this._scan());
+    this._scan();
+  }
+
+  /**
+   * Stops tracking child frames and detaches every frame window.
+   */
+  stop () {
+    if (!this._observer) {
+      return;
+    }
+    this._observer.disconnect();
+    this._observer = undefined;
+
+    this._frames.forEach(frame => frame.removeEventListener('load', this._loadHandler));
+    this._frames.clear();
+    this._windows.forEach(win => this._detach(win));
+    this._windows.clear();
+  }
+}
+
+export default FrameWatcher;
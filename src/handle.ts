@@ -0,0 +1,43 @@
+declare global {
+  // Declared here as well, so that consumers whose lib does not include ESNext.Disposable
+  // can still compile against these declarations
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+  }
+}
+
+// Symbol.dispose is not defined in every runtime yet; fall back to a registered symbol a polyfill can adopt
+const dispose: typeof Symbol.dispose =
+  (Symbol as Partial<SymbolConstructor>).dispose ?? Symbol.for('Symbol.dispose') as typeof Symbol.dispose;
+
+class LockHandle {
+  private _onRelease: ((handle: LockHandle) => void) | undefined;
+
+  /**
+   * Creates a handle representing one owner of a lock.
+   * @param onRelease - Called once when the handle is released.
+   */
+  constructor (onRelease: (handle: LockHandle) => void) {
+    this._onRelease = onRelease;
+  }
+
+  /**
+   * Releases this owner's hold on the lock. The lock itself is released once every
+   * outstanding handle has been released. Safe to call more than once.
+   */
+  release () {
+    const onRelease = this._onRelease;
+
+    this._onRelease = undefined;
+    onRelease?.(this);
+  }
+
+  /**
+   * Releases the handle at the end of a `using` block.
+   */
+  [dispose] () {
+    this.release();
+  }
+}
+
+export default LockHandle;
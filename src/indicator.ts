@@ -0,0 +1,114 @@
+import { acquire, attribute, className, release, style } from './attributes.ts';
+import type { Accessor } from './attributes.ts';
+import { elementsOutside } from './dom.ts';
+
+export interface IndicatorOptions {
+  cursor?: string | false;
+  className?: string;
+  properties?: Record<string, string>;
+}
+
+const lockedAttribute = 'data-blokr-locked';
+
+const cursorAttribute = 'data-blokr-cursor';
+
+// Locks showing each cursor, for which the shared style element holds a rule
+const cursorCounts = new Map<string, number>();
+
+let cursorStyle: HTMLStyleElement | undefined;
+
+/**
+ * Rewrites the shared style element with a rule for each cursor in use, removing it once none is.
+ * Links, inputs and the like set their own cursor, so the rules override it on every descendant
+ * of a marked element instead of relying on inheritance.
+ */
+const updateCursorRules = () => {
+  if (!cursorCounts.size) {
+    cursorStyle?.remove();
+    cursorStyle = undefined;
+    return;
+  }
+  const rules: string[] = [];
+
+  cursorCounts.forEach((_, cursor) => {
+    const selector = `[${cursorAttribute}="${cursor.replace(/["\\]/g, '\\$&')}"]`;
+    rules.push(`${selector},${selector} *{cursor:${cursor} !important}`);
+  });
+  cursorStyle = cursorStyle ?? document.createElement('style');
+  cursorStyle.textContent = rules.join('\n');
+  // The application may have replaced the head since the rules were inserted
+  if (!cursorStyle.isConnected) {
+    document.head.appendChild(cursorStyle);
+  }
+};
+
+class Indicator {
+  private _values: [Accessor, string][];
+
+  private _cursor: string | false;
+
+  /**
+   * Creates the visual state of one lock.
+   * @param elements - The target elements, or an empty list for the global lock.
+   * @param scope - The lock scope, written to the data attribute.
+   * @param options - Which parts of the state to apply.
+   */
+  constructor (elements: Element[], scope: string, options: IndicatorOptions) {
+    const outside = scope === 'outside' || !elements.length;
+    // Locks covering everything outside the target mark the whole document
+    const regions = outside ? [document.documentElement] : elements;
+    // The target of an outside lock stays interactive, so only the elements around it are marked
+    // and the target keeps its regular cursor
+    const marked = outside && elements.length ? elementsOutside(elements) : regions;
+    const cursor = options.cursor ?? 'wait';
+    const properties = options.properties ?? {};
+
+    this._values = [];
+    this._cursor = cursor;
+    regions.forEach(region => {
+      this._values.push([attribute(region, lockedAttribute), scope]);
+      if (cursor && marked === regions) {
+        this._values.push([style(region, 'cursor'), cursor]);
+      }
+      if (options.className) {
+        this._values.push([className(region, options.className), options.className]);
+      }
+      Object.keys(properties).forEach(property => {
+        this._values.push([style(region, property), properties[property]]);
+      });
+    });
+    if (cursor) {
+      marked.forEach(element => this._values.push([attribute(element, cursorAttribute), cursor]));
+    }
+  }
+
+  /**
+   * Applies the data attribute, cursor, class and custom properties.
+   */
+  apply () {
+    if (this._cursor) {
+      cursorCounts.set(this._cursor, (cursorCounts.get(this._cursor) ?? 0) + 1);
+      updateCursorRules();
+    }
+    this._values.forEach(([accessor, value]) => acquire(accessor, value));
+  }
+
+  /**
+   * Reverts every change made by apply().
+   */
+  revert () {
+    this._values.forEach(([accessor]) => release(accessor));
+    if (this._cursor) {
+      const count = (cursorCounts.get(this._cursor) ?? 0) - 1;
+
+      if (count > 0) {
+        cursorCounts.set(this._cursor, count);
+      } else {
+        cursorCounts.delete(this._cursor);
+      }
+      updateCursorRules();
+    }
+  }
+}
+
+export default Indicator;
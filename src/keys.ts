@@ -0,0 +1,68 @@
+interface KeyRule {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+const keyAliases: Record<string, string> = {
+  esc: 'escape',
+  space: ' ',
+  spacebar: ' ',
+  del: 'delete',
+  up: 'arrowup',
+  down: 'arrowdown',
+  left: 'arrowleft',
+  right: 'arrowright'
+};
+
+/**
+ * Parses a key rule such as `Escape`, `Ctrl+S` or `Ctrl+Shift+Z`.
+ * Modifier names are case-insensitive; `Control`, `Option`, `Cmd` and `Command` are accepted as aliases.
+ * @param rule - The key rule to parse.
+ * @returns The parsed key rule.
+ */
+const parseKeyRule = (rule: string): KeyRule => {
+  // Split on '+' only when something follows it, so that 'Ctrl++' yields the '+' key
+  const parts = rule.split(/\+(?=.)/);
+  const key = parts.pop()?.toLowerCase() ?? '';
+  const modifiers = parts.map(part => part.trim().toLowerCase());
+  const has = (...names: string[]) => modifiers.some(modifier => names.indexOf(modifier) >= 0);
+
+  return {
+    key: keyAliases[key] ?? key,
+    ctrl: has('ctrl', 'control'),
+    alt: has('alt', 'option'),
+    shift: has('shift'),
+    meta: has('meta', 'cmd', 'command')
+  };
+};
+
+/**
+ * Checks whether a keyboard event matches a parsed key rule.
+ * Ctrl, Alt and Meta must match exactly. Shift must match exactly unless the rule names
+ * a single character without Shift, since that character may itself require Shift to type.
+ * @param rule - The parsed key rule.
+ * @param evt - The keyboard event.
+ * @returns true if the event matches the rule.
+ */
+const matchesKeyRule = (rule: KeyRule, evt: KeyboardEvent) => {
+  if (evt.key.toLowerCase() !== rule.key) {
+    return false;
+  }
+  if (evt.ctrlKey !== rule.ctrl || evt.altKey !== rule.alt || evt.metaKey !== rule.meta) {
+    return false;
+  }
+  return evt.shiftKey === rule.shift || (!rule.shift && rule.key.length === 1);
+};
+
+/**
+ * Creates a predicate that tests keyboard events against a list of key rules.
+ * @param rules - Key rules such as `Escape` or `Ctrl+S`.
+ * @returns Predicate returning true if the event matches any of the rules.
+ */
+export const createKeyMatcher = (rules: string[]) => {
+  const parsed = rules.map(parseKeyRule);
+  return (evt: KeyboardEvent) => parsed.some(rule => matchesKeyRule(rule, evt));
+};
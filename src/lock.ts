@@ -1,38 +1,264 @@
-export type Filter = (eventTarget: Element) => boolean;
+import { isElement, isKeyboardEvent } from './dom.ts';
+import FrameWatcher from './frames.ts';
+import TextEntryGuard from './text-entry.ts';
 
-const eventNames = [
-  'contextmenu', 'keydown', 'mousedown', 'touchmove', 'touchstart', 'wheel'
+export type Filter = (eventTarget: Element, evt: Event) => boolean;
+
+export interface RegisterOptions {
+  frames?: boolean;
+  undoTextEntry?: boolean;
+  onBlock?: (evt: Event) => void;
+}
+
+export type EventCategory =
+  'pointer' | 'keyboard' | 'touch' | 'wheel' | 'contextmenu' | 'clipboard' | 'drag' | 'input' | 'focus';
+
+export type EventType = EventCategory | keyof WindowEventMap;
+
+const categories: Record<EventCategory, string[]> = {
+  pointer: [
+    'pointerdown', 'pointerup', 'pointercancel',
+    'mousedown', 'mouseup', 'click', 'dblclick', 'auxclick'
+  ],
+  keyboard: ['keydown', 'keypress', 'keyup'],
+  touch: ['touchstart', 'touchmove'],
+  wheel: ['wheel'],
+  contextmenu: ['contextmenu'],
+  clipboard: ['copy', 'cut', 'paste'],
+  drag: ['dragstart', 'dragenter', 'dragover', 'drop'],
+  input: ['beforeinput', 'compositionstart', 'compositionupdate', 'compositionend', 'input'],
+  focus: ['focus', 'blur', 'focusin', 'focusout']
+};
+
+// Events that end the gesture a click guard was armed for
+const clickGuardEventNames = ['pointerdown', 'pointerup', 'pointercancel', 'click', 'auxclick'];
+
+const clickEventNames = ['click', 'auxclick'];
+
+// Events that only ever follow another event of the same interaction, which has been reported already
+const followUpEventNames = [
+  'pointerup', 'pointercancel', 'mouseup', 'dblclick', 'keypress', 'keyup', 'touchmove',
+  'dragenter', 'dragover', 'compositionstart', 'compositionupdate', 'compositionend', 'input',
+  'focus', 'blur', 'focusout'
+];
+
+// Events that belong to the gesture of a preceding pointerdown, if there was one
+const pointerGestureEventNames = ['mousedown', 'touchstart', 'click', 'auxclick'];
+
+const defaultEventTypes: EventType[] = [
+  'pointer', 'keyboard', 'touch', 'wheel', 'contextmenu', 'clipboard', 'drag', 'input'
 ];
 
+/**
+ * Expands event categories into the concrete event names they stand for.
+ * Names that are not categories are passed through as explicit event names.
+ * @param [eventTypes] - Event categories and/or event names. Defaults to the standard interaction set.
+ * @returns Deduplicated list of event names.
+ */
+export const resolveEventNames = (eventTypes?: EventType[]) => {
+  const eventNames: string[] = [];
+
+  (eventTypes ?? defaultEventTypes).forEach(eventType => {
+    const names = eventType in categories ? categories[eventType as EventCategory] : [eventType];
+
+    names.forEach(name => {
+      if (eventNames.indexOf(name) < 0) {
+        eventNames.push(name);
+      }
+    });
+  });
+  return eventNames;
+};
+
+const listenerOptions = { capture: true, passive: false };
+
 class Lock {
-  private _filters: Set<Filter>;
+  private _filters: Map<string, Set<Filter>>;
+
+  private _frameFilters: Set<Filter>;
+
+  private _undoFilters: Set<Filter>;
+
+  private _blockHandlers: Map<Filter, (evt: Event) => void>;
+
+  private _frames: FrameWatcher;
+
+  private _handler: (evt: Event) => void;
+
+  private _guardHandler: (evt: Event) => void;
+
+  private _guarded: boolean;
+
+  private _guardTimerId: number | undefined;
+
+  private _textEntry: TextEntryGuard;
 
   /**
    * Creates the Lock singleton instance.
    */
   constructor () {
-    this._filters = new Set();
+    this._filters = new Map();
+    this._frameFilters = new Set();
+    this._undoFilters = new Set();
+    this._blockHandlers = new Map();
+    this._frames = new FrameWatcher(this._attach.bind(this), this._detach.bind(this));
+    this._handler = this._listener.bind(this);
+    this._guardHandler = this._clickGuard.bind(this);
+    this._guarded = false;
+    this._guardTimerId = undefined;
+    this._textEntry = new TextEntryGuard();
+  }
 
-    if ('addEventListener' in globalThis) {
-      eventNames.forEach(eventName => globalThis.addEventListener(
-        eventName,
-        this._listener.bind(this),
-        { capture: true, passive: false }
+  /**
+   * Returns every window the lock listens on: this window plus any attached child frames.
+   * @returns Event targets to install capture listeners on.
+   */
+  private _realms (): EventTarget[] {
+    return 'addEventListener' in globalThis ? [globalThis, ...this._frames.windows()] : [];
+  }
+
+  /**
+   * Installs the current capture listeners on a newly found child frame window.
+   * @param win - The frame window.
+   */
+  private _attach (win: Window) {
+    this._filters.forEach((_, eventName) => win.addEventListener(eventName, this._handler, listenerOptions));
+    if (this._guarded) {
+      clickGuardEventNames.forEach(eventName => win.addEventListener(eventName, this._guardHandler, listenerOptions));
+    }
+  }
+
+  /**
+   * Removes all capture listeners from a child frame window.
+   * @param win - The frame window.
+   */
+  private _detach (win: Window) {
+    this._filters.forEach((_, eventName) => win.removeEventListener(eventName, this._handler, true));
+    clickGuardEventNames.forEach(eventName => win.removeEventListener(eventName, this._guardHandler, true));
+  }
+
+  /**
+   * Stops the event from reaching any other listener and cancels its default action.
+   * A blocked pointerdown arms the click guard so the trailing click is swallowed
+   * even if the lock is released before the pointer is lifted.
+   * @param evt - The event to be blocked.
+   */
+  private _block (evt: Event) {
+    evt.stopImmediatePropagation();
+    evt.stopPropagation();
+    evt.preventDefault();
+
+    // Cancelling dragover alone would accept the drop; a 'none' effect rejects it instead,
+    // and since the page handled the drag, dropped files are not opened by the browser either
+    const { dataTransfer } = evt as Partial<DragEvent>;
+    if (dataTransfer && (evt.type === 'dragenter' || evt.type === 'dragover')) {
+      dataTransfer.dropEffect = 'none';
+    }
+
+    // Only the events of a pointer gesture concern the guard; a blocked keystroke in between
+    // must not let the trailing click through
+    if (evt.type === 'pointerdown') {
+      this._disarmClickGuard();
+      this._armClickGuard();
+    } else if (evt.type === 'pointerup') {
+      this._endClickGuard();
+    } else if (clickEventNames.indexOf(evt.type) >= 0) {
+      this._disarmClickGuard();
+    }
+  }
+
+  /**
+   * Swallows the click that completes a gesture whose pointerdown was blocked.
+   * A cancelled gesture never produces a click, and any subsequent pointerdown starts
+   * a new gesture, so both disarm the guard, as does the end of the task the pointer is lifted in.
+   * @param evt - The event to be inspected.
+   */
+  private _clickGuard (evt: Event) {
+    if (evt.type === 'pointerup') {
+      this._endClickGuard();
+      return;
+    }
+    this._disarmClickGuard();
+    if (clickEventNames.indexOf(evt.type) >= 0) {
+      this._block(evt);
+    }
+  }
+
+  /**
+   * Disarms the guard once the current task is over. The click is dispatched right after the
+   * pointerup, so it is still caught, while a gesture that ends without a click, e.g. because the
+   * pointer was released outside the window, does not leave the guard armed for a later click.
+   */
+  private _endClickGuard () {
+    if (this._guarded && this._guardTimerId === undefined) {
+      this._guardTimerId = globalThis.setTimeout(() => {
+        this._guardTimerId = undefined;
+        this._disarmClickGuard();
+      });
+    }
+  }
+
+  /**
+   * Checks whether a blocked event starts an interaction, rather than continuing one,
+   * so that a gesture is reported once however many events it consists of.
+   * @param evt - The blocked event.
+   * @returns true if the event starts an interaction.
+   */
+  private _startsInteraction (evt: Event) {
+    if (pointerGestureEventNames.indexOf(evt.type) >= 0) {
+      // The click guard is armed from a blocked pointerdown until its gesture ends
+      return !this._guarded;
+    }
+    if (isKeyboardEvent(evt) && evt.repeat) {
+      return false;
+    }
+    return followUpEventNames.indexOf(evt.type) < 0;
+  }
+
+  private _armClickGuard () {
+    if (!this._guarded) {
+      this._realms().forEach(realm => clickGuardEventNames.forEach(
+        eventName => realm.addEventListener(eventName, this._guardHandler, listenerOptions)
+      ));
+      this._guarded = true;
+    }
+  }
+
+  private _disarmClickGuard () {
+    globalThis.clearTimeout(this._guardTimerId);
+    this._guardTimerId = undefined;
+    if (this._guarded) {
+      this._realms().forEach(realm => clickGuardEventNames.forEach(
+        eventName => realm.removeEventListener(eventName, this._guardHandler, true)
       ));
+      this._guarded = false;
     }
   }
 
   /**
    * Blocks user interactions when the lock is active.
+   * Only the filters registered for the dispatched event type are consulted.
    * @param evt - The event to be blocked.
    */
   private _listener (evt: Event) {
-    if (evt.target instanceof Element) {
-      for (const filter of this._filters.values()) {
-        if (filter(evt.target)) {
-          evt.stopImmediatePropagation();
-          evt.stopPropagation();
-          evt.preventDefault();
+    const filters = this._filters.get(evt.type);
+    // Events from shadow trees are retargeted to their host, so take the innermost element on the path
+    const eventTarget = filters && evt.composedPath().find(isElement);
+
+    if (filters && eventTarget) {
+      for (const filter of filters.values()) {
+        if (filter(eventTarget, evt)) {
+          // Decided before blocking, since blocking a click disarms the guard
+          const starts = this._startsInteraction(evt);
+
+          this._block(evt);
+          // Not every text entry can be cancelled, so what gets through is undone for locks that opted in
+          if (Array.from(this._undoFilters).some(undo => undo === filter || (filters.has(undo) && undo(eventTarget, evt)))) {
+            this._textEntry.block(evt, eventTarget);
+          }
+          if (starts) {
+            this._blockHandlers.get(filter)?.(evt);
+          }
           break;
         }
       }
@@ -41,18 +267,62 @@ class Lock {
 
   /**
    * Registers a filter function to block events matching the filter criteria.
+   * Capture listeners are installed lazily for event names not yet being listened to.
    * @param filter - Filter function that determines which events to block.
+   * @param eventNames - Names of the events the filter applies to.
+   * @param [options] - Whether the filter also needs events from same-origin child frames,
+   * whether text entry it cannot cancel is undone, and a callback for each interaction the filter blocks.
    */
-  register (filter: Filter) {
-    this._filters.add(filter);
+  register (filter: Filter, eventNames: string[], options?: RegisterOptions) {
+    eventNames.forEach(eventName => {
+      let filters = this._filters.get(eventName);
+
+      if (!filters) {
+        filters = new Set();
+        this._filters.set(eventName, filters);
+        this._realms().forEach(realm => realm.addEventListener(eventName, this._handler, listenerOptions));
+      }
+      filters.add(filter);
+    });
+
+    if (options?.onBlock) {
+      this._blockHandlers.set(filter, options.onBlock);
+    }
+    if (options?.undoTextEntry) {
+      if (!this._undoFilters.size) {
+        this._textEntry.start();
+      }
+      this._undoFilters.add(filter);
+    }
+    if (options?.frames) {
+      this._frameFilters.add(filter);
+      this._frames.start();
+    }
   }
 
   /**
    * Unregisters a previously registered filter function.
+   * Capture listeners for event names that no longer have any filter are removed.
    * @param filter - The filter function to remove.
    */
   unregister (filter: Filter) {
-    this._filters.delete(filter);
+    this._filters.forEach((filters, eventName) => {
+      filters.delete(filter);
+
+      if (!filters.size) {
+        this._filters.delete(eventName);
+        this._realms().forEach(realm => realm.removeEventListener(eventName, this._handler, true));
+      }
+    });
+
+    this._blockHandlers.delete(filter);
+    if (this._undoFilters.delete(filter) && !this._undoFilters.size) {
+      this._textEntry.stop();
+    }
+    this._frameFilters.delete(filter);
+    if (!this._frameFilters.size) {
+      this._frames.stop();
+    }
   }
 }
 
@@ -0,0 +1,44 @@
+import { isKeyboardEvent } from './dom.ts';
+import type { EventType } from './lock.ts';
+
+export const readonlyEventTypes: EventType[] = ['pointer', 'keyboard', 'clipboard', 'drag', 'input'];
+
+// Elements that edit or activate something when clicked or typed into
+export const controlSelector = [
+  'a[href]', 'area[href]', 'button', 'input', 'select', 'textarea', 'label', 'summary',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="radio"]', '[role="switch"]',
+  '[role="tab"]', '[role="menuitem"]', '[role="option"]', '[role="slider"]', '[role="textbox"]'
+].join(',');
+
+const editingEventNames = [
+  'cut', 'paste', 'dragenter', 'dragover', 'drop',
+  'beforeinput', 'compositionstart', 'compositionupdate', 'compositionend', 'input'
+];
+
+const navigationKeys = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown', 'Home', 'End', ' '];
+
+// Select all and copy, including the legacy Ctrl+Insert
+const copyKeys = ['a', 'c', 'insert'];
+
+/**
+ * Decides whether a read-only lock lets an event through.
+ * Scrolling, text selection, copying and navigation keys pass; editing and activating controls do not.
+ * @param evt - The event.
+ * @param onControl - Whether the event comes from within a control.
+ * @returns true if the event is allowed.
+ */
+export const allowsInReadonly = (evt: Event, onControl: boolean) => {
+  if (isKeyboardEvent(evt)) {
+    if ((evt.ctrlKey || evt.metaKey) && !evt.altKey && copyKeys.indexOf(evt.key.toLowerCase()) >= 0) {
+      return true;
+    }
+    // Arrows and Space change the value of controls, so only Tab moves on from them
+    return evt.key === 'Tab' || (!onControl && navigationKeys.indexOf(evt.key) >= 0);
+  }
+  if (editingEventNames.indexOf(evt.type) >= 0) {
+    return false;
+  }
+  // Pointer events select text unless they would activate a control
+  return evt.type === 'copy' || evt.type === 'dragstart' || !onControl;
+};
@@ -0,0 +1,120 @@
+import { acquire, release, style } from './attributes.ts';
+import type { Accessor } from './attributes.ts';
+
+interface Position {
+  container: Element;
+  left: number;
+  top: number;
+}
+
+// Overflow values that let the user scroll the element
+const scrollingOverflow = /\b(auto|scroll|overlay)\b/;
+
+class ScrollLock {
+  private _containers: Element[];
+
+  private _values: [Accessor, string][];
+
+  private _positions: Position[];
+
+  private _scrollHandler: (evt: Event) => void;
+
+  /**
+   * Creates a scroll lock for the given scroll containers.
+   * @param elements - The scroll containers, or an empty list to lock the page itself.
+   */
+  constructor (elements: Element[]) {
+    this._containers = elements.length ? elements : [document.scrollingElement ?? document.documentElement];
+    this._values = [];
+    this._positions = [];
+    this._scrollHandler = this._scroll.bind(this);
+  }
+
+  /**
+   * Checks whether the container is the page's scrolling element, which scrolls the window.
+   * @param container - The scroll container.
+   * @returns true if the container scrolls the window.
+   */
+  private _isPage (container: Element) {
+    return container === (document.scrollingElement ?? document.documentElement);
+  }
+
+  /**
+   * Checks whether a container can be scrolled by the user. Elements that merely clip or show their
+   * overflow are left alone, since hiding it would change how they look.
+   * @param container - The scroll container.
+   * @returns true if the container is the page or its overflow scrolls.
+   */
+  private _scrolls (container: Element) {
+    if (this._isPage(container)) {
+      return true;
+    }
+    const { overflow, overflowX, overflowY } = getComputedStyle(container);
+
+    // The shorthand holds both axes, while some engines do not report the longhands
+    return [overflow, overflowX, overflowY].some(value => scrollingOverflow.test(value));
+  }
+
+  /**
+   * Puts a container back to its frozen position when something still manages to scroll it,
+   * such as momentum scrolling on iOS.
+   * @param evt - The scroll event.
+   */
+  private _scroll (evt: Event) {
+    this._positions.forEach(({ container, left, top }) => {
+      if (this._isPage(container) && evt.target === document) {
+        globalThis.scrollTo(left, top);
+      } else if (evt.target === container && (container.scrollLeft !== left || container.scrollTop !== top)) {
+        container.scrollLeft = left;
+        container.scrollTop = top;
+      }
+    });
+  }
+
+  /**
+   * Freezes the scroll position of every container, hiding its scrollbar and padding the
+   * freed space so that the layout does not shift.
+   */
+  apply () {
+    this._containers.filter(container => this._scrolls(container)).forEach(container => {
+      const page = this._isPage(container);
+      const padded = page ? document.body : container;
+      const { borderLeftWidth, borderRightWidth } = getComputedStyle(container);
+      // The page's scrollbar belongs to the viewport, so its width is measured against the window,
+      // while an element's offset width also includes its borders
+      const scrollbarWidth = page
+        ? globalThis.innerWidth - document.documentElement.clientWidth
+        : (container as HTMLElement).offsetWidth - container.clientWidth -
+          (parseFloat(borderLeftWidth) || 0) - (parseFloat(borderRightWidth) || 0);
+
+      this._positions.push({ container, left: container.scrollLeft, top: container.scrollTop });
+      this._values.push([style(container, 'overflow'), 'hidden']);
+      this._values.push([style(container, 'overscroll-behavior'), 'none']);
+      if (scrollbarWidth > 0) {
+        const padding = parseFloat(getComputedStyle(padded).paddingRight) || 0;
+        this._values.push([style(padded, 'padding-right'), `${String(padding + scrollbarWidth)}px`]);
+      }
+    });
+    this._values.forEach(([accessor, value]) => acquire(accessor, value));
+    // Scroll events do not bubble from elements, so they are caught while capturing
+    globalThis.addEventListener('scroll', this._scrollHandler, { capture: true, passive: true });
+  }
+
+  /**
+   * Restores the styles and the exact scroll position each container had when it was frozen.
+   */
+  revert () {
+    globalThis.removeEventListener('scroll', this._scrollHandler, { capture: true });
+    this._values.splice(0).forEach(([accessor]) => release(accessor));
+    this._positions.splice(0).forEach(({ container, left, top }) => {
+      if (this._isPage(container)) {
+        globalThis.scrollTo(left, top);
+      } else {
+        container.scrollLeft = left;
+        container.scrollTop = top;
+      }
+    });
+  }
+}
+
+export default ScrollLock;
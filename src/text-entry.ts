@@ -0,0 +1,110 @@
+const textFieldSelector = [
+  'textarea', 'input:not([type])',
+  ...['text', 'search', 'email', 'url', 'tel', 'password', 'number'].map(type => `input[type="${type}"]`)
+].join(',');
+
+const editingHostSelector = '[contenteditable]:not([contenteditable="false"])';
+
+// Text entry events that report changes already made, so blocking them cannot prevent the change
+export const uncancellableEventNames = ['compositionstart', 'compositionupdate', 'compositionend', 'input'];
+
+/**
+ * Checks whether an element is a text field whose value can be restored.
+ * @param element - The element to check.
+ * @returns true if the element is a textarea or a text-like input.
+ */
+const isTextField = (element: Element): element is HTMLInputElement | HTMLTextAreaElement => {
+  return element.matches(textFieldSelector);
+};
+
+/**
+ * Records the content of a text field or editing host.
+ * @param element - The text field or editing host.
+ * @returns A function that puts the recorded content back.
+ */
+const snapshot = (element: Element) => {
+  if (isTextField(element)) {
+    const { value, selectionStart, selectionEnd } = element;
+
+    return () => {
+      if (element.value !== value) {
+        element.value = value;
+        // Inputs such as type="email" do not support selection
+        if (selectionStart !== null && selectionEnd !== null) {
+          element.setSelectionRange(selectionStart, selectionEnd);
+        }
+      }
+    };
+  }
+  const html = element.innerHTML;
+
+  return () => {
+    if (element.innerHTML !== html) {
+      element.innerHTML = html;
+    }
+  };
+};
+
+class TextEntryGuard {
+  private _snapshots: Map<Element, () => void>;
+
+  private _composing: boolean;
+
+  /**
+   * Creates a guard that undoes text entry which cannot be cancelled, such as IME composition,
+   * virtual keyboards that send no keydown, autofill and dictation.
+   */
+  constructor () {
+    this._snapshots = new Map();
+    this._composing = false;
+  }
+
+  /**
+   * Records the current value of every text field, for changes that arrive without a
+   * preceding beforeinput, such as autofill.
+   */
+  start () {
+    Array.from(document.querySelectorAll(textFieldSelector)).forEach(element => {
+      this._snapshots.set(element, snapshot(element));
+    });
+  }
+
+  /**
+   * Forgets every recorded value.
+   */
+  stop () {
+    this._snapshots.clear();
+    this._composing = false;
+  }
+
+  /**
+   * Handles a blocked text entry event. The content is recorded when an edit begins,
+   * and put back once an edit that could not be cancelled has been applied.
+   * @param evt - The blocked event.
+   * @param eventTarget - The innermost element the event was dispatched to.
+   */
+  block (evt: Event, eventTarget: Element) {
+    const host = isTextField(eventTarget) ? eventTarget : eventTarget.closest(editingHostSelector);
+
+    if (!host) {
+      return;
+    }
+    if (evt.type === 'compositionstart') {
+      this._composing = true;
+      this._snapshots.set(host, snapshot(host));
+    } else if (evt.type === 'beforeinput') {
+      // Keep the snapshot from before the composition while it is in progress
+      if (!this._composing) {
+        this._snapshots.set(host, snapshot(host));
+      }
+    } else if (evt.type === 'compositionend') {
+      this._composing = false;
+      this._snapshots.get(host)?.();
+    } else if (evt.type === 'input' && !(evt as Partial<InputEvent>).isComposing) {
+      // Restoring mid-composition would confuse the IME, so wait for the composition to end
+      this._snapshots.get(host)?.();
+    }
+  }
+}
+
+export default TextEntryGuard;
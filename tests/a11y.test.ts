@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import blokr from '../src/blokr.ts';
+
+describe('Accessibility State', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    blokr.unlockAll();
+    document.body.innerHTML = '';
+  });
+
+  const setup = () => {
+    const header = document.createElement('header');
+    const main = document.createElement('main');
+    const modal = document.createElement('div');
+    const sibling = document.createElement('p');
+    main.appendChild(modal);
+    main.appendChild(sibling);
+    document.body.appendChild(header);
+    document.body.appendChild(main);
+    return { header, main, modal, sibling };
+  };
+
+  it('should set aria-busy on the target and restore it on unlock', () => {
+    const { modal } = setup();
+    modal.setAttribute('aria-busy', 'false');
+
+    blokr(modal).lock({ a11y: true });
+    expect(modal.getAttribute('aria-busy')).toBe('true');
+
+    blokr(modal).unlock();
+    expect(modal.getAttribute('aria-busy')).toBe('false');
+  });
+
+  it('should set aria-busy on the body for the global instance', () => {
+    blokr().lock({ a11y: true });
+    expect(document.body.getAttribute('aria-busy')).toBe('true');
+
+    blokr().unlock();
+    expect(document.body.hasAttribute('aria-busy')).toBe(false);
+  });
+
+  it('should make the target inert for inside scope', () => {
+    const { header, modal } = setup();
+
+    blokr(modal).lock({ a11y: { inert: true } });
+    expect(modal.hasAttribute('inert')).toBe(true);
+    expect(header.hasAttribute('inert')).toBe(false);
+
+    blokr(modal).unlock();
+    expect(modal.hasAttribute('inert')).toBe(false);
+  });
+
+  it('should make everything but the target inert for outside scope', () => {
+    const { header, main, modal, sibling } = setup();
+
+    blokr(modal).lock({ scope: 'outside', a11y: { inert: true } });
+    expect(header.hasAttribute('inert')).toBe(true);
+    expect(sibling.hasAttribute('inert')).toBe(true);
+    expect(main.hasAttribute('inert')).toBe(false);
+    expect(modal.hasAttribute('inert')).toBe(false);
+
+    blokr(modal).unlock();
+    expect(header.hasAttribute('inert')).toBe(false);
+    expect(sibling.hasAttribute('inert')).toBe(false);
+  });
+
+  it('should keep attributes shared by overlapping locks until the last one is released', () => {
+    const { header, modal } = setup();
+
+    blokr(modal).lock({ scope: 'outside', a11y: { inert: true } });
+    blokr(header).lock({ a11y: { inert: true } });
+    blokr(modal).unlock();
+    expect(header.hasAttribute('inert')).toBe(true);
+
+    blokr(header).unlock();
+    expect(header.hasAttribute('inert')).toBe(false);
+  });
+
+  it('should announce the lock in a polite live region', () => {
+    vi.useFakeTimers();
+    const { modal } = setup();
+
+    blokr(modal).lock({ a11y: { announce: 'Saving…' } });
+
+    // The region is inserted empty, and the message written on a later task
+    const region = document.querySelector('[aria-live="polite"]');
+    expect(region?.textContent).toBe('');
+    vi.runAllTimers();
+    expect(region?.textContent).toBe('Saving…');
+
+    blokr(modal).unlock();
+    expect(region?.isConnected).toBe(false);
+  });
+
+  it('should announce the same message again', () => {
+    vi.useFakeTimers();
+    const { header, modal } = setup();
+
+    blokr(modal).lock({ a11y: { announce: 'Saving…' } });
+    vi.runAllTimers();
+    blokr(header).lock({ a11y: { announce: 'Saving…' } });
+
+    const region = document.querySelector('[aria-live="polite"]');
+    expect(region?.textContent).toBe('');
+    vi.runAllTimers();
+    expect(region?.textContent).toBe('Saving…');
+  });
+
+  it('should put the live region back when the body has been replaced', () => {
+    vi.useFakeTimers();
+    const { header, modal } = setup();
+
+    blokr(modal).lock({ a11y: { announce: 'Saving…' } });
+    document.body.innerHTML = '';
+    document.body.appendChild(header);
+    blokr(header).lock({ a11y: { announce: 'Loading…' } });
+    vi.runAllTimers();
+
+    expect(document.querySelector('[aria-live="polite"]')?.textContent).toBe('Loading…');
+  });
+
+  it('should not announce a message after the lock has been released', () => {
+    vi.useFakeTimers();
+    const { header, modal } = setup();
+
+    blokr(modal).lock({ a11y: { announce: 'Saving…' } });
+    blokr(header).lock({ a11y: { announce: 'Loading…' } });
+    blokr(header).unlock();
+    vi.runAllTimers();
+
+    expect(document.querySelector('[aria-live="polite"]')?.textContent).toBe('');
+  });
+
+  it('should not make the live region inert', () => {
+    setup();
+
+    blokr().lock({ a11y: { inert: true, announce: 'Please wait' } });
+
+    const region = document.querySelector('[aria-live="polite"]');
+    expect(region?.hasAttribute('inert')).toBe(false);
+  });
+
+  it('should keep exempted elements out of inert regions', () => {
+    const { header, main, modal, sibling } = setup();
+    const cancel = document.createElement('button');
+    const allowed = document.createElement('button');
+    allowed.setAttribute('data-blokr-allow', '');
+    header.appendChild(cancel);
+    sibling.appendChild(allowed);
+
+    blokr().lock({ except: cancel, a11y: { inert: true } });
+
+    // Only the parts around the exempted elements become inert
+    expect(cancel.closest('[inert]')).toBeNull();
+    expect(allowed.closest('[inert]')).toBeNull();
+    expect(header.hasAttribute('inert')).toBe(false);
+    expect(main.hasAttribute('inert')).toBe(false);
+    expect(modal.hasAttribute('inert')).toBe(true);
+  });
+
+  it('should lift inert from suspended stacked locks', () => {
+    const { header, modal } = setup();
+
+    blokr(modal).lock({ scope: 'outside', stack: true, a11y: { inert: true } });
+    blokr(header).lock({ scope: 'outside', stack: true, a11y: { inert: true } });
+    expect(header.hasAttribute('inert')).toBe(false);
+
+    blokr(header).unlock();
+    expect(header.hasAttribute('inert')).toBe(true);
+  });
+});
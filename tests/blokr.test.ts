@@ -1,4 +1,4 @@
-import { describe, it, expect, afterEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import blokr from '../src/blokr.ts';
 
 describe('Blokr Factory Function', () => {
@@ -39,6 +39,31 @@ describe('Blokr Factory Function', () => {
       const instance2 = blokr(element2);
       expect(instance1).not.toBe(instance2);
     });
+
+    it('should return the same instance for same selector', () => {
+      const instance1 = blokr('.panel');
+      const instance2 = blokr('.panel');
+      expect(instance1).toBe(instance2);
+      expect(instance1).not.toBe(blokr('.other-panel'));
+    });
+
+    it('should return the same instance for same element list', () => {
+      const elements = [document.createElement('div'), document.createElement('div')];
+      expect(blokr(elements)).toBe(blokr(elements));
+    });
+
+    it('should return the same instance for separate lists of the same elements', () => {
+      const modal = document.createElement('div');
+      const popover = document.createElement('div');
+
+      blokr([modal, popover]).lock();
+      expect(blokr([popover, modal])).toBe(blokr([modal, popover]));
+      expect(blokr([modal, popover]).isLocked()).toBe(true);
+
+      blokr([modal, popover]).unlock();
+      expect(blokr([modal, popover]).isLocked()).toBe(false);
+      expect(blokr([modal])).not.toBe(blokr([modal, popover]));
+    });
   });
 
   describe('lock()', () => {
@@ -104,6 +129,14 @@ describe('Blokr Factory Function', () => {
       instance.unlock();
     });
 
+    it('should accept events option', () => {
+      const instance = blokr();
+      const result = instance.lock({ events: ['keyboard', 'mouseover'] });
+      expect(result).toBe(true);
+      expect(instance.isLocked()).toBe(true);
+      instance.unlock();
+    });
+
     it('should use default scope "inside" if not specified', () => {
       const instance = blokr(document.createElement('div'));
       const result = instance.lock();
@@ -225,6 +258,64 @@ describe('Blokr Factory Function', () => {
 
       vi.useRealTimers();
     });
+
+    it('should call onTimeout after the timeout releases the lock', () => {
+      vi.useFakeTimers();
+
+      const onTimeout = vi.fn();
+      const instance = blokr();
+      instance.lock({ timeout: 1000, onTimeout });
+
+      instance.unlock();
+      instance.lock({ timeout: 1000, onTimeout });
+      vi.advanceTimersByTime(1000);
+
+      expect(onTimeout).toHaveBeenCalledTimes(1);
+      expect(onTimeout).toHaveBeenCalledWith({ instance, target: undefined, scope: 'inside' });
+      expect(instance.isLocked()).toBe(false);
+
+      vi.useRealTimers();
+    });
+
+    it('should restart the timeout with resetTimeout()', () => {
+      vi.useFakeTimers();
+
+      const instance = blokr();
+      expect(instance.resetTimeout()).toBe(false);
+
+      instance.lock({ timeout: 1000 });
+      vi.advanceTimersByTime(800);
+      expect(instance.remaining()).toBe(200);
+
+      expect(instance.resetTimeout()).toBe(true);
+      expect(instance.remaining()).toBe(1000);
+      vi.advanceTimersByTime(800);
+      expect(instance.isLocked()).toBe(true);
+
+      instance.resetTimeout(5000);
+      vi.advanceTimersByTime(4999);
+      expect(instance.isLocked()).toBe(true);
+      vi.advanceTimersByTime(1);
+      expect(instance.isLocked()).toBe(false);
+      expect(instance.remaining()).toBeUndefined();
+
+      vi.useRealTimers();
+    });
+
+    it('should remove the timeout with resetTimeout(0)', () => {
+      vi.useFakeTimers();
+
+      const instance = blokr();
+      instance.lock({ timeout: 1000 });
+      instance.resetTimeout(0);
+      vi.advanceTimersByTime(2000);
+
+      expect(instance.isLocked()).toBe(true);
+      expect(instance.remaining()).toBeUndefined();
+
+      instance.unlock();
+      vi.useRealTimers();
+    });
   });
 
   describe('Independent Instances', () => {
@@ -290,4 +381,517 @@ describe('Blokr Factory Function', () => {
       instance.unlock();
     });
   });
+
+  describe('Lock Handles', () => {
+    it('should return a handle and lock', () => {
+      const instance = blokr();
+      const handle = instance.lock({ handle: true });
+      expect(typeof handle.release).toBe('function');
+      expect(instance.isLocked()).toBe(true);
+
+      handle.release();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should stay locked until all handles are released', () => {
+      const instance = blokr();
+      const handle1 = instance.lock({ handle: true });
+      const handle2 = instance.lock({ handle: true });
+      expect(handle1).not.toBe(handle2);
+
+      handle1.release();
+      expect(instance.isLocked()).toBe(true);
+
+      // Releasing the same handle twice has no effect
+      handle1.release();
+      expect(instance.isLocked()).toBe(true);
+
+      handle2.release();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should stay locked while a plain lock() owner remains', () => {
+      const instance = blokr();
+      instance.lock();
+      const handle = instance.lock({ handle: true });
+
+      handle.release();
+      expect(instance.isLocked()).toBe(true);
+
+      instance.unlock();
+    });
+
+    it('should keep outstanding handles on unlock()', () => {
+      const instance = blokr();
+      const handle = instance.lock({ handle: true });
+      instance.lock();
+
+      // unlock() releases only the plain hold, even from code that never took a handle
+      instance.unlock();
+      instance.unlock();
+      expect(instance.isLocked()).toBe(true);
+
+      handle.release();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should release every owner with unlockAll()', () => {
+      const instance = blokr();
+      const handle1 = instance.lock({ handle: true });
+      instance.lock({ handle: true });
+
+      blokr.unlockAll();
+      expect(instance.isLocked()).toBe(false);
+
+      // Stale handles do not affect a later lock
+      const handle3 = instance.lock({ handle: true });
+      handle1.release();
+      expect(instance.isLocked()).toBe(true);
+
+      handle3.release();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should release every owner on timeout', () => {
+      vi.useFakeTimers();
+
+      const instance = blokr();
+      instance.lock({ handle: true, timeout: 1000 });
+      instance.lock({ handle: true });
+
+      vi.advanceTimersByTime(1000);
+      expect(instance.isLocked()).toBe(false);
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('lockWhile()', () => {
+    it('should stay locked while the work is running despite unlock()', async () => {
+      const instance = blokr();
+      let resolve: () => void = () => undefined;
+      const promise = instance.lockWhile(new Promise<void>(r => { resolve = r; }));
+
+      instance.unlock();
+      expect(instance.isLocked()).toBe(true);
+
+      resolve();
+      await promise;
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should lock until the promise resolves', async () => {
+      const instance = blokr();
+      let resolve: (value: string) => void = () => undefined;
+      const promise = instance.lockWhile(new Promise<string>(r => { resolve = r; }));
+
+      expect(instance.isLocked()).toBe(true);
+
+      resolve('done');
+      await expect(promise).resolves.toBe('done');
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should unlock when the async function rejects', async () => {
+      const instance = blokr();
+      const promise = instance.lockWhile(() => Promise.reject(new Error('failed')));
+
+      expect(instance.isLocked()).toBe(true);
+
+      await expect(promise).rejects.toThrow('failed');
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should stay locked until overlapping work has settled', async () => {
+      const instance = blokr();
+      let resolve: () => void = () => undefined;
+      const slow = instance.lockWhile(new Promise<void>(r => { resolve = r; }));
+
+      await instance.lockWhile(Promise.resolve());
+      expect(instance.isLocked()).toBe(true);
+
+      resolve();
+      await slow;
+      expect(instance.isLocked()).toBe(false);
+    });
+  });
+
+  describe('AbortSignal', () => {
+    it('should unlock when the signal aborts', () => {
+      const instance = blokr();
+      const controller = new AbortController();
+
+      instance.lock({ signal: controller.signal });
+      expect(instance.isLocked()).toBe(true);
+
+      controller.abort();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should not lock with an already aborted signal', () => {
+      const instance = blokr();
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(instance.lock({ signal: controller.signal })).toBe(false);
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should release only the handle the signal belongs to', () => {
+      const instance = blokr();
+      const controller = new AbortController();
+
+      instance.lock({ handle: true, signal: controller.signal });
+      const handle = instance.lock({ handle: true });
+
+      controller.abort();
+      expect(instance.isLocked()).toBe(true);
+
+      handle.release();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should not affect later locks once unlocked', () => {
+      const instance = blokr();
+      const controller = new AbortController();
+
+      instance.lock({ signal: controller.signal });
+      instance.unlock();
+      instance.lock();
+
+      controller.abort();
+      expect(instance.isLocked()).toBe(true);
+
+      instance.unlock();
+    });
+  });
+
+  describe('Explicit Resource Management', () => {
+    it('should release the handle at the end of a using block', () => {
+      const instance = blokr();
+      {
+        using handle = instance.lock({ handle: true });
+        expect(handle).toBeDefined();
+        expect(instance.isLocked()).toBe(true);
+      }
+      expect(instance.isLocked()).toBe(false);
+    });
+  });
+
+  describe('State Subscription', () => {
+    it('should notify instance subscribers of lock and manual unlock', () => {
+      const element = document.createElement('div');
+      const instance = blokr(element);
+      const subscriber = vi.fn();
+      const unsubscribe = instance.subscribe(subscriber);
+
+      instance.lock();
+      instance.unlock();
+
+      expect(subscriber).toHaveBeenCalledTimes(2);
+      expect(subscriber).toHaveBeenNthCalledWith(1, expect.objectContaining({ type: 'lock', instance, target: element }));
+      expect(subscriber).toHaveBeenNthCalledWith(2, expect.objectContaining({ type: 'unlock', reason: 'manual' }));
+
+      unsubscribe();
+      instance.lock();
+      instance.unlock();
+
+      expect(subscriber).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not notify when nothing changes', () => {
+      const instance = blokr();
+      const subscriber = vi.fn();
+      const unsubscribe = instance.subscribe(subscriber);
+
+      instance.unlock();
+      instance.lock();
+      instance.lock();
+
+      expect(subscriber).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      unsubscribe();
+    });
+
+    it('should report timeout as the unlock reason', () => {
+      vi.useFakeTimers();
+
+      const instance = blokr();
+      const subscriber = vi.fn();
+      const unsubscribe = instance.subscribe(subscriber);
+
+      instance.lock({ timeout: 1000 });
+      vi.advanceTimersByTime(1000);
+
+      expect(subscriber).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'unlock', reason: 'timeout' }));
+
+      unsubscribe();
+      vi.useRealTimers();
+    });
+
+    it('should report abort as the unlock reason', () => {
+      const instance = blokr();
+      const controller = new AbortController();
+      const subscriber = vi.fn();
+      const unsubscribe = instance.subscribe(subscriber);
+
+      instance.lock({ handle: true, signal: controller.signal });
+      controller.abort();
+
+      expect(subscriber).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'unlock', reason: 'abort' }));
+
+      unsubscribe();
+    });
+
+    it('should notify global subscribers of changes to any instance', () => {
+      const element = document.createElement('div');
+      const subscriber = vi.fn();
+      const unsubscribe = blokr.subscribe(subscriber);
+
+      blokr().lock();
+      blokr(element).lock();
+      blokr(element).unlock();
+
+      expect(subscriber).toHaveBeenCalledTimes(3);
+      expect(subscriber).toHaveBeenNthCalledWith(1, expect.objectContaining({ type: 'lock', instance: blokr() }));
+      expect(subscriber).toHaveBeenNthCalledWith(3, expect.objectContaining({ type: 'unlock', instance: blokr(element) }));
+
+      unsubscribe();
+    });
+  });
+
+  describe('Introspection', () => {
+    it('should describe the current lock', () => {
+      vi.useFakeTimers();
+
+      const element = document.createElement('div');
+      const instance = blokr(element);
+      expect(instance.info()).toBeUndefined();
+
+      instance.lock({ scope: 'outside', timeout: 5000, label: 'Saving profile' });
+      vi.advanceTimersByTime(2000);
+
+      expect(instance.info()).toEqual({
+        instance,
+        target: element,
+        scope: 'outside',
+        label: 'Saving profile',
+        options: { scope: 'outside', timeout: 5000, label: 'Saving profile' },
+        lockedAt: Date.now() - 2000,
+        remaining: 3000,
+        suspended: false,
+        stack: undefined,
+        warnings: []
+      });
+
+      instance.unlock();
+      expect(instance.info()).toBeUndefined();
+
+      vi.useRealTimers();
+    });
+
+    it('should not let changes to the reported options affect the lock', () => {
+      vi.useFakeTimers();
+
+      const instance = blokr();
+      instance.lock({ timeout: 1000 });
+
+      const info = instance.info();
+      if (info) {
+        info.options.timeout = 5000;
+      }
+      instance.resetTimeout();
+      vi.advanceTimersByTime(1000);
+      expect(instance.isLocked()).toBe(false);
+
+      vi.useRealTimers();
+    });
+
+    it('should list every locked instance in lock order', () => {
+      const element = document.createElement('div');
+
+      blokr(element).lock({ label: 'panel' });
+      blokr().lock();
+
+      const active = blokr.active();
+      expect(active.map(info => info.instance)).toEqual([blokr(element), blokr()]);
+      expect(active[0].label).toBe('panel');
+      expect(active[1].remaining).toBeUndefined();
+
+      blokr(element).unlock();
+      expect(blokr.active().map(info => info.instance)).toEqual([blokr()]);
+    });
+
+    it('should report suspended stacked locks', () => {
+      const modalA = document.createElement('div');
+      const modalB = document.createElement('div');
+
+      blokr(modalA).lock({ scope: 'outside', stack: true });
+      blokr(modalB).lock({ scope: 'outside', stack: true });
+
+      expect(blokr(modalA).info()?.suspended).toBe(true);
+      expect(blokr(modalB).info()?.suspended).toBe(false);
+
+      blokr.unlockAll();
+    });
+
+    it('should unlock every instance with unlockAll()', () => {
+      const element = document.createElement('div');
+
+      blokr().lock();
+      blokr(element).lock({ handle: true });
+      blokr.unlockAll();
+
+      expect(blokr().isLocked()).toBe(false);
+      expect(blokr(element).isLocked()).toBe(false);
+      expect(blokr.active()).toEqual([]);
+    });
+  });
+
+  describe('Delay and Minimum Duration', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should only engage a delayed lock once the delay has elapsed', () => {
+      const subscriber = vi.fn();
+      const instance = blokr();
+      const unsubscribe = instance.subscribe(subscriber);
+
+      expect(instance.lock({ delay: 200 })).toBe(true);
+      expect(instance.isLocked()).toBe(false);
+      expect(instance.isPending()).toBe(true);
+      expect(instance.lock()).toBe(false);
+
+      vi.advanceTimersByTime(200);
+      expect(instance.isLocked()).toBe(true);
+      expect(instance.isPending()).toBe(false);
+      expect(subscriber).toHaveBeenNthCalledWith(1, expect.objectContaining({ type: 'pending' }));
+      expect(subscriber).toHaveBeenNthCalledWith(2, expect.objectContaining({ type: 'lock' }));
+
+      instance.unlock();
+      unsubscribe();
+    });
+
+    it('should cancel a pending lock on unlock', () => {
+      const subscriber = vi.fn();
+      const instance = blokr();
+      const unsubscribe = instance.subscribe(subscriber);
+
+      instance.lock({ delay: 200 });
+      instance.unlock();
+      vi.advanceTimersByTime(200);
+
+      expect(instance.isLocked()).toBe(false);
+      expect(instance.isPending()).toBe(false);
+      expect(subscriber).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'unlock', reason: 'manual' }));
+
+      unsubscribe();
+    });
+
+    it('should hold an engaged lock for at least minDuration', () => {
+      const instance = blokr();
+
+      instance.lock({ minDuration: 500 });
+      vi.advanceTimersByTime(100);
+      instance.unlock();
+      expect(instance.isLocked()).toBe(true);
+
+      vi.advanceTimersByTime(400);
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should keep the lock when locked again during a deferred release', () => {
+      const instance = blokr();
+
+      instance.lock({ minDuration: 500 });
+      instance.unlock();
+      expect(instance.lock()).toBe(true);
+
+      vi.advanceTimersByTime(1000);
+      expect(instance.isLocked()).toBe(true);
+
+      instance.unlock();
+      expect(instance.isLocked()).toBe(false);
+    });
+
+    it('should not hold back the timeout', () => {
+      const instance = blokr();
+
+      instance.lock({ minDuration: 5000, timeout: 1000 });
+      vi.advanceTimersByTime(1000);
+
+      expect(instance.isLocked()).toBe(false);
+    });
+  });
+
+  describe('Debug Mode', () => {
+    afterEach(() => {
+      blokr.debug(false);
+      vi.useRealTimers();
+    });
+
+    it('should record the call stack only while debugging', () => {
+      blokr().lock();
+      expect(blokr().info()?.stack).toBeUndefined();
+      blokr().unlock();
+
+      blokr.debug();
+      blokr().lock();
+      expect(blokr().info()?.stack).toContain('Error');
+    });
+
+    it('should warn once about locks held longer than maxAge', () => {
+      vi.useFakeTimers();
+      const onWarning = vi.fn();
+      blokr.debug({ maxAge: 5000, interval: 1000, onWarning });
+
+      blokr().lock({ label: 'Saving' });
+      vi.advanceTimersByTime(4000);
+      expect(onWarning).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(3000);
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'age',
+        message: expect.stringContaining('"Saving"') as string
+      }));
+      expect(blokr().info()?.warnings).toEqual(['age']);
+    });
+
+    it('should warn about locks whose target was removed from the document', () => {
+      vi.useFakeTimers();
+      const onWarning = vi.fn();
+      const element = document.createElement('div');
+      document.body.appendChild(element);
+      blokr.debug({ onWarning });
+
+      blokr(element).lock();
+      vi.advanceTimersByTime(1000);
+      expect(onWarning).not.toHaveBeenCalled();
+
+      element.remove();
+      vi.advanceTimersByTime(1000);
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ type: 'detached' }));
+
+      blokr(element).unlock();
+    });
+
+    it('should fall back to console.warn', () => {
+      vi.useFakeTimers();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      blokr.debug({ maxAge: 0 });
+
+      blokr().lock();
+      vi.advanceTimersByTime(1000);
+      expect(warn).toHaveBeenCalledTimes(1);
+
+      warn.mockRestore();
+    });
+  });
 });
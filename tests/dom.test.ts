@@ -0,0 +1,24 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { frameElementsOf } from '../src/dom.ts';
+
+describe('frameElementsOf()', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should list the frames between a node and this window', () => {
+    const outer = document.createElement('iframe');
+    document.body.appendChild(outer);
+    const outerDocument = (outer.contentWindow as Window & typeof globalThis).document;
+    const inner = outerDocument.createElement('iframe');
+    outerDocument.body.appendChild(inner);
+    const node = (inner.contentWindow as Window & typeof globalThis).document.body;
+
+    expect(frameElementsOf(node)).toEqual([inner, outer]);
+  });
+
+  it('should not include the pages embedding this window', () => {
+    // Even when this document is itself framed, its own frame element lies beyond this window
+    expect(frameElementsOf(document.body)).toEqual([]);
+  });
+});
@@ -576,4 +576,1322 @@ describe('Event Blocking Integration', () => {
       document.body.removeChild(element);
     });
   });
+
+  describe('Event Categories', () => {
+    it('should block only keyboard events with keyboard category', () => {
+      const keyHandler = vi.fn();
+      const mouseHandler = vi.fn();
+      const element = document.createElement('input');
+      element.addEventListener('keydown', keyHandler);
+      element.addEventListener('mousedown', mouseHandler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ events: ['keyboard'] });
+
+      element.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true, cancelable: true }));
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(keyHandler).not.toHaveBeenCalled();
+      expect(mouseHandler).toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should block explicit event names', () => {
+      const handler = vi.fn();
+      const element = document.createElement('div');
+      element.addEventListener('mouseover', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ events: ['mouseover'] });
+
+      element.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, cancelable: true }));
+
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      element.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, cancelable: true }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      document.body.removeChild(element);
+    });
+
+    it('should only consult locks that care about the event type', () => {
+      const container = document.createElement('div');
+      const input = document.createElement('input');
+      const keyHandler = vi.fn();
+      const mouseHandler = vi.fn();
+      input.addEventListener('keydown', keyHandler);
+      input.addEventListener('mousedown', mouseHandler);
+      container.appendChild(input);
+      document.body.appendChild(container);
+
+      const keyboardLock = blokr();
+      const pointerLock = blokr(container);
+      keyboardLock.lock({ events: ['keyboard'] });
+      pointerLock.lock({ events: ['pointer'] });
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true, cancelable: true }));
+      input.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(keyHandler).not.toHaveBeenCalled();
+      expect(mouseHandler).not.toHaveBeenCalled();
+
+      keyboardLock.unlock();
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true, cancelable: true }));
+      input.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(keyHandler).toHaveBeenCalled();
+      expect(mouseHandler).not.toHaveBeenCalled();
+
+      pointerLock.unlock();
+      document.body.removeChild(container);
+    });
+  });
+
+  describe('Pointer Events and Click Family', () => {
+    it('should block the whole pointer family when locked globally', () => {
+      const eventNames = ['pointerdown', 'pointerup', 'pointercancel', 'mousedown', 'mouseup', 'click', 'dblclick', 'auxclick'];
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      eventNames.forEach(eventName => element.addEventListener(eventName, handler));
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock();
+
+      eventNames.forEach(eventName => {
+        element.dispatchEvent(new MouseEvent(eventName, { bubbles: true, cancelable: true }));
+      });
+
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should suppress the trailing click of a pointerdown blocked while locked', () => {
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      element.addEventListener('click', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock();
+
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+
+      // Released before the pointer is lifted
+      instance.unlock();
+
+      element.dispatchEvent(new MouseEvent('pointerup', { bubbles: true, cancelable: true }));
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+      expect(handler).not.toHaveBeenCalled();
+
+      // Only the trailing click is suppressed
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      document.body.removeChild(element);
+    });
+
+    it('should not suppress clicks of a new gesture', () => {
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      element.addEventListener('click', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock();
+
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+
+      instance.unlock();
+
+      // Pointer lifted elsewhere; a new gesture starts
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+      expect(handler).toHaveBeenCalled();
+
+      document.body.removeChild(element);
+    });
+
+    it('should not suppress clicks after a cancelled gesture', () => {
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      element.addEventListener('click', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock();
+
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+      instance.unlock();
+
+      // A touch pan ends the gesture without a click
+      element.dispatchEvent(new MouseEvent('pointercancel', { bubbles: true }));
+      element.click();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      document.body.removeChild(element);
+    });
+
+    it('should not suppress later clicks when the gesture ends without one', () => {
+      vi.useFakeTimers();
+
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      element.addEventListener('click', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock();
+
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+      // Released outside the window, so no click follows
+      element.dispatchEvent(new MouseEvent('pointerup', { bubbles: true, cancelable: true }));
+      vi.runAllTimers();
+      instance.unlock();
+
+      // A click activated by the keyboard long after
+      element.click();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      document.body.removeChild(element);
+      vi.useRealTimers();
+    });
+
+    it('should keep the guard armed when a key is blocked during the gesture', () => {
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      element.addEventListener('click', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock();
+
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+      element.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true, cancelable: true }));
+      instance.unlock();
+
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+      expect(handler).not.toHaveBeenCalled();
+
+      document.body.removeChild(element);
+    });
+  });
+
+  describe('Key Filtering', () => {
+    const press = (element: Element, init: KeyboardEventInit) => {
+      element.dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init }));
+    };
+
+    it('should let allowed keys through while blocking others', () => {
+      const handler = vi.fn();
+      const element = document.createElement('input');
+      element.addEventListener('keydown', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ keys: { allow: ['Escape'] } });
+
+      press(element, { key: 'a' });
+      press(element, { key: 's', ctrlKey: true });
+      expect(handler).not.toHaveBeenCalled();
+
+      press(element, { key: 'Escape' });
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should block only listed keys when a block list is given', () => {
+      const handler = vi.fn();
+      const element = document.createElement('input');
+      element.addEventListener('keydown', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ keys: { block: ['Ctrl+S'] } });
+
+      press(element, { key: 's', ctrlKey: true });
+      expect(handler).not.toHaveBeenCalled();
+
+      press(element, { key: 's' });
+      press(element, { key: 's', ctrlKey: true, altKey: true });
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should let typing into a field through when only other keys are blocked', () => {
+      vi.useFakeTimers();
+
+      const handler = vi.fn();
+      const element = document.createElement('input');
+      element.addEventListener('beforeinput', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ keys: { block: ['Ctrl+S'] } });
+
+      press(element, { key: 'a' });
+      const typed = new InputEvent('beforeinput', { bubbles: true, cancelable: true, data: 'a', inputType: 'insertText' });
+      element.dispatchEvent(typed);
+      expect(typed.defaultPrevented).toBe(false);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Text entry that no allowed keystroke produced is still blocked
+      vi.runAllTimers();
+      const composed = new InputEvent('beforeinput', { bubbles: true, cancelable: true, data: 'あ', inputType: 'insertText' });
+      element.dispatchEvent(composed);
+      expect(composed.defaultPrevented).toBe(true);
+
+      instance.unlock();
+      document.body.removeChild(element);
+      vi.useRealTimers();
+    });
+
+    it('should let the paste of an allowed shortcut through', () => {
+      const handler = vi.fn();
+      const element = document.createElement('input');
+      element.addEventListener('paste', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ keys: { allow: ['Ctrl+V'] } });
+
+      press(element, { key: 'v', ctrlKey: true });
+      element.dispatchEvent(new Event('paste', { bubbles: true, cancelable: true }));
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should match modifier combos and aliases', () => {
+      const handler = vi.fn();
+      const element = document.createElement('input');
+      element.addEventListener('keydown', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ keys: { allow: ['Cmd+Shift+Z', 'Ctrl++', 'Space', '?'] } });
+
+      press(element, { key: 'Z', metaKey: true, shiftKey: true });
+      press(element, { key: '+', ctrlKey: true });
+      press(element, { key: ' ' });
+      press(element, { key: '?', shiftKey: true });
+      expect(handler).toHaveBeenCalledTimes(4);
+
+      press(element, { key: 'z', metaKey: true });
+      expect(handler).toHaveBeenCalledTimes(4);
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should not affect non-keyboard events', () => {
+      const handler = vi.fn();
+      const element = document.createElement('button');
+      element.addEventListener('mousedown', handler);
+      document.body.appendChild(element);
+
+      const instance = blokr();
+      instance.lock({ keys: { block: ['Ctrl+S'] } });
+
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+  });
+
+  describe('Shadow DOM', () => {
+    const createShadowTree = () => {
+      const host = document.createElement('div');
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      const panel = document.createElement('div');
+      const button = document.createElement('button');
+      panel.appendChild(button);
+      shadowRoot.appendChild(panel);
+      document.body.appendChild(host);
+      return { host, panel, button };
+    };
+
+    it('should block events inside a target that lives in a shadow tree', () => {
+      const { host, panel, button } = createShadowTree();
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+
+      const instance = blokr(panel);
+      instance.lock();
+
+      button.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, composed: true }));
+
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(host);
+    });
+
+    it('should allow events inside a shadow tree target with scope outside', () => {
+      const { host, panel, button } = createShadowTree();
+      const outside = document.createElement('button');
+      const handler = vi.fn();
+      const outsideHandler = vi.fn();
+      button.addEventListener('mousedown', handler);
+      outside.addEventListener('mousedown', outsideHandler);
+      document.body.appendChild(outside);
+
+      const instance = blokr(panel);
+      instance.lock({ scope: 'outside' });
+
+      button.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, composed: true }));
+      outside.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(handler).toHaveBeenCalled();
+      expect(outsideHandler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(host);
+      document.body.removeChild(outside);
+    });
+
+    it('should treat events from within a shadow host as events on the host with scope self', () => {
+      const { host, button } = createShadowTree();
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+
+      const instance = blokr(host);
+      instance.lock({ scope: 'self' });
+
+      button.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, composed: true }));
+
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(host);
+    });
+  });
+
+  describe('Same-origin Frames', () => {
+    const createFrame = (parent: Element) => {
+      const iframe = document.createElement('iframe');
+      parent.appendChild(iframe);
+
+      const frameWindow = iframe.contentWindow as Window & typeof globalThis;
+      const button = frameWindow.document.createElement('button');
+      frameWindow.document.body.appendChild(button);
+      const press = () => {
+        button.dispatchEvent(new frameWindow.MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      };
+      return { iframe, button, press };
+    };
+
+    it('should block events inside frames with frames option', () => {
+      const { iframe, button, press } = createFrame(document.body);
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+
+      const instance = blokr();
+      instance.lock({ frames: true });
+
+      press();
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+
+      press();
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      document.body.removeChild(iframe);
+    });
+
+    it('should ignore events inside frames without frames option', () => {
+      const { iframe, button, press } = createFrame(document.body);
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+
+      const instance = blokr();
+      instance.lock();
+
+      press();
+      expect(handler).toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(iframe);
+    });
+
+    it('should treat the contents of a frame as inside its container', () => {
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+      const { button, press } = createFrame(container);
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+
+      const instance = blokr(container);
+      instance.lock({ scope: 'outside', frames: true });
+
+      press();
+      expect(handler).toHaveBeenCalled();
+
+      instance.unlock();
+      instance.lock({ scope: 'inside', frames: true });
+      handler.mockClear();
+
+      press();
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(container);
+    });
+
+    it('should attach to frames added after locking', async () => {
+      const instance = blokr();
+      instance.lock({ frames: true });
+
+      const { iframe, button, press } = createFrame(document.body);
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+
+      // Let the mutation observer pick up the new frame
+      await Promise.resolve();
+
+      press();
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(iframe);
+    });
+  });
+
+  describe('Blocked Interaction Callback', () => {
+    it('should call onBlocked with the event and the responsible lock', () => {
+      const container = document.createElement('div');
+      const button = document.createElement('button');
+      container.appendChild(button);
+      document.body.appendChild(container);
+
+      const onBlocked = vi.fn();
+      const instance = blokr(container);
+      instance.lock({ onBlocked });
+
+      const event = new MouseEvent('mousedown', { bubbles: true, cancelable: true });
+      button.dispatchEvent(event);
+      button.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(onBlocked).toHaveBeenCalledTimes(2);
+      expect(onBlocked).toHaveBeenNthCalledWith(1, event, { instance, target: container, scope: 'inside', attempts: 1 });
+      expect(onBlocked).toHaveBeenNthCalledWith(2, expect.any(MouseEvent), expect.objectContaining({ attempts: 2 }));
+
+      instance.unlock();
+      document.body.removeChild(container);
+    });
+
+    it('should call onBlocked once for a whole pointer gesture', () => {
+      const element = document.createElement('button');
+      document.body.appendChild(element);
+
+      const onBlocked = vi.fn();
+      const instance = blokr();
+      instance.lock({ onBlocked });
+
+      ['pointerdown', 'touchstart', 'pointerup', 'click'].forEach(type => {
+        element.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true }));
+      });
+
+      expect(onBlocked).toHaveBeenCalledTimes(1);
+      expect(onBlocked).toHaveBeenCalledWith(expect.objectContaining({ type: 'pointerdown' }), expect.objectContaining({ attempts: 1 }));
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should call onBlocked once per keystroke, ignoring key repeats', () => {
+      const element = document.createElement('input');
+      document.body.appendChild(element);
+
+      const onBlocked = vi.fn();
+      const instance = blokr();
+      instance.lock({ onBlocked });
+
+      element.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true, cancelable: true }));
+      element.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', repeat: true, bubbles: true, cancelable: true }));
+      element.dispatchEvent(new KeyboardEvent('keypress', { key: 'a', bubbles: true, cancelable: true }));
+      element.dispatchEvent(new KeyboardEvent('keyup', { key: 'a', bubbles: true, cancelable: true }));
+
+      expect(onBlocked).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should call onBlocked for a click when only clicks are blocked', () => {
+      const element = document.createElement('button');
+      document.body.appendChild(element);
+
+      const onBlocked = vi.fn();
+      const instance = blokr();
+      instance.lock({ events: ['click'], onBlocked });
+
+      element.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, cancelable: true }));
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+      expect(onBlocked).toHaveBeenCalledTimes(1);
+      expect(onBlocked).toHaveBeenCalledWith(expect.objectContaining({ type: 'click' }), expect.anything());
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+
+    it('should not call onBlocked for events that pass through', () => {
+      const container = document.createElement('div');
+      const outside = document.createElement('button');
+      document.body.appendChild(container);
+      document.body.appendChild(outside);
+
+      const onBlocked = vi.fn();
+      const instance = blokr(container);
+      instance.lock({ onBlocked });
+
+      outside.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(onBlocked).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(container);
+      document.body.removeChild(outside);
+    });
+
+    it('should throttle onBlocked calls', () => {
+      vi.useFakeTimers();
+
+      const element = document.createElement('button');
+      document.body.appendChild(element);
+
+      const onBlocked = vi.fn();
+      const instance = blokr();
+      instance.lock({ onBlocked, blockedThrottle: 1000 });
+
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      expect(onBlocked).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      expect(onBlocked).toHaveBeenCalledTimes(2);
+      expect(onBlocked).toHaveBeenLastCalledWith(expect.any(MouseEvent), expect.objectContaining({ attempts: 3 }));
+
+      instance.unlock();
+      document.body.removeChild(element);
+      vi.useRealTimers();
+    });
+
+    it('should call global onBlocked callbacks for any instance', () => {
+      const element = document.createElement('button');
+      document.body.appendChild(element);
+
+      const callback = vi.fn();
+      const remove = blokr.onBlocked(callback);
+      const instance = blokr();
+      instance.lock();
+
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      expect(callback).toHaveBeenCalledWith(expect.any(MouseEvent), expect.objectContaining({ instance }));
+
+      remove();
+      element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(element);
+    });
+  });
+
+  describe('Multiple Elements and Selectors', () => {
+    const mousedown = () => new MouseEvent('mousedown', { bubbles: true, cancelable: true });
+
+    it('should block events inside any element of an array', () => {
+      const modal = document.createElement('div');
+      const popover = document.createElement('div');
+      const outside = document.createElement('button');
+      const handler = vi.fn();
+      modal.addEventListener('mousedown', handler);
+      popover.addEventListener('mousedown', handler);
+      outside.addEventListener('mousedown', handler);
+      document.body.append(modal, popover, outside);
+
+      const instance = blokr([modal, popover]);
+      instance.lock();
+
+      modal.dispatchEvent(mousedown());
+      popover.dispatchEvent(mousedown());
+      expect(handler).not.toHaveBeenCalled();
+
+      outside.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(modal);
+      document.body.removeChild(popover);
+      document.body.removeChild(outside);
+    });
+
+    it('should treat the union of elements as inside with scope outside', () => {
+      const modal = document.createElement('div');
+      const popover = document.createElement('div');
+      const outside = document.createElement('button');
+      const handler = vi.fn();
+      modal.addEventListener('mousedown', handler);
+      popover.addEventListener('mousedown', handler);
+      outside.addEventListener('mousedown', handler);
+      document.body.append(modal, popover, outside);
+
+      const instance = blokr([modal, popover]);
+      instance.lock({ scope: 'outside' });
+
+      modal.dispatchEvent(mousedown());
+      popover.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      outside.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      instance.unlock();
+      document.body.removeChild(modal);
+      document.body.removeChild(popover);
+      document.body.removeChild(outside);
+    });
+
+    it('should accept a NodeList', () => {
+      const card1 = document.createElement('div');
+      const card2 = document.createElement('div');
+      card1.className = card2.className = 'node-list-card';
+      const handler = vi.fn();
+      card2.addEventListener('mousedown', handler);
+      document.body.append(card1, card2);
+
+      const instance = blokr(document.querySelectorAll('.node-list-card'));
+      instance.lock({ scope: 'self' });
+
+      card2.dispatchEvent(mousedown());
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(card1);
+      document.body.removeChild(card2);
+    });
+
+    it('should evaluate selectors at event time', () => {
+      const instance = blokr('.editable-card');
+      instance.lock();
+
+      // Inserted after locking
+      const card = document.createElement('div');
+      const button = document.createElement('button');
+      card.className = 'editable-card';
+      card.appendChild(button);
+      const handler = vi.fn();
+      button.addEventListener('mousedown', handler);
+      document.body.appendChild(card);
+
+      button.dispatchEvent(mousedown());
+      expect(handler).not.toHaveBeenCalled();
+
+      card.className = '';
+      button.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(card);
+    });
+  });
+
+  describe('Custom Filter Predicates', () => {
+    it('should let events through when the predicate returns false', () => {
+      const allowed = document.createElement('button');
+      const blocked = document.createElement('button');
+      allowed.setAttribute('data-allow-while-busy', '');
+      const handler = vi.fn();
+      allowed.addEventListener('mousedown', handler);
+      blocked.addEventListener('mousedown', handler);
+      document.body.append(allowed, blocked);
+
+      const instance = blokr();
+      instance.lock({ filter: (_evt, eventTarget) => !eventTarget.closest('[data-allow-while-busy]') });
+
+      allowed.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+      blocked.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(allowed);
+      document.body.removeChild(blocked);
+    });
+
+    it('should pass the event, its target and the lock context', () => {
+      const container = document.createElement('div');
+      const button = document.createElement('button');
+      container.appendChild(button);
+      document.body.appendChild(container);
+
+      const predicate = vi.fn(() => true);
+      const instance = blokr(container);
+      instance.lock({ filter: predicate });
+
+      const event = new MouseEvent('mousedown', { bubbles: true, cancelable: true });
+      button.dispatchEvent(event);
+
+      expect(predicate).toHaveBeenCalledWith(event, button, { instance, target: container, scope: 'inside' });
+
+      instance.unlock();
+      document.body.removeChild(container);
+    });
+
+    it('should only be consulted for events in scope', () => {
+      const container = document.createElement('div');
+      const outside = document.createElement('button');
+      const handler = vi.fn();
+      outside.addEventListener('mousedown', handler);
+      document.body.append(container, outside);
+
+      const predicate = vi.fn(() => true);
+      const instance = blokr(container);
+      instance.lock({ filter: predicate });
+
+      outside.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+      expect(predicate).not.toHaveBeenCalled();
+      expect(handler).toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(container);
+      document.body.removeChild(outside);
+    });
+  });
+
+  describe('Exemptions', () => {
+    const mousedown = () => new MouseEvent('mousedown', { bubbles: true, cancelable: true });
+
+    it('should let events inside excepted elements through', () => {
+      const cancel = document.createElement('button');
+      const icon = document.createElement('span');
+      const other = document.createElement('button');
+      cancel.appendChild(icon);
+      const handler = vi.fn();
+      icon.addEventListener('mousedown', handler);
+      other.addEventListener('mousedown', handler);
+      document.body.append(cancel, other);
+
+      const instance = blokr();
+      instance.lock({ except: cancel });
+
+      icon.dispatchEvent(mousedown());
+      other.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      document.body.removeChild(cancel);
+      document.body.removeChild(other);
+    });
+
+    it('should accept selectors and element lists', () => {
+      const help = document.createElement('div');
+      const cancel = document.createElement('button');
+      help.className = 'help-widget';
+      const handler = vi.fn();
+      help.addEventListener('mousedown', handler);
+      cancel.addEventListener('mousedown', handler);
+      document.body.append(help, cancel);
+
+      const instance = blokr();
+      instance.lock({ except: '.help-widget' });
+      help.dispatchEvent(mousedown());
+      cancel.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      instance.unlock();
+      instance.lock({ except: [help, cancel] });
+      help.dispatchEvent(mousedown());
+      cancel.dispatchEvent(mousedown());
+      expect(handler).toHaveBeenCalledTimes(3);
+
+      instance.unlock();
+      document.body.removeChild(help);
+      document.body.removeChild(cancel);
+    });
+
+    it('should honor the data-blokr-allow attribute in every scope', () => {
+      const container = document.createElement('div');
+      const allowed = document.createElement('button');
+      allowed.setAttribute('data-blokr-allow', '');
+      container.appendChild(allowed);
+      const handler = vi.fn();
+      allowed.addEventListener('mousedown', handler);
+      document.body.appendChild(container);
+
+      const instance = blokr(container);
+      instance.lock({ scope: 'inside' });
+      allowed.dispatchEvent(mousedown());
+      instance.unlock();
+
+      const self = blokr(allowed);
+      self.lock({ scope: 'self' });
+      allowed.dispatchEvent(mousedown());
+      self.unlock();
+
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      document.body.removeChild(container);
+    });
+  });
+
+  describe('Stacked Locks', () => {
+    const mousedown = () => new MouseEvent('mousedown', { bubbles: true, cancelable: true });
+
+    it('should only apply the topmost stacked outside lock', () => {
+      const modalA = document.createElement('div');
+      const modalB = document.createElement('div');
+      const page = document.createElement('button');
+      const handlerA = vi.fn();
+      const handlerB = vi.fn();
+      const pageHandler = vi.fn();
+      modalA.addEventListener('mousedown', handlerA);
+      modalB.addEventListener('mousedown', handlerB);
+      page.addEventListener('mousedown', pageHandler);
+      // B is a portal, not a descendant of A
+      document.body.append(page, modalA, modalB);
+
+      const instanceA = blokr(modalA);
+      const instanceB = blokr(modalB);
+      instanceA.lock({ scope: 'outside', stack: true });
+      instanceB.lock({ scope: 'outside', stack: true });
+
+      modalB.dispatchEvent(mousedown());
+      modalA.dispatchEvent(mousedown());
+      page.dispatchEvent(mousedown());
+      expect(handlerB).toHaveBeenCalledTimes(1);
+      expect(handlerA).not.toHaveBeenCalled();
+      expect(pageHandler).not.toHaveBeenCalled();
+
+      // Popping B restores A
+      instanceB.unlock();
+
+      modalB.dispatchEvent(mousedown());
+      modalA.dispatchEvent(mousedown());
+      page.dispatchEvent(mousedown());
+      expect(handlerB).toHaveBeenCalledTimes(1);
+      expect(handlerA).toHaveBeenCalledTimes(1);
+      expect(pageHandler).not.toHaveBeenCalled();
+
+      instanceA.unlock();
+      document.body.removeChild(page);
+      document.body.removeChild(modalA);
+      document.body.removeChild(modalB);
+    });
+
+    it('should keep the top lock active when a lower one is removed', () => {
+      const modalA = document.createElement('div');
+      const modalB = document.createElement('div');
+      const handlerA = vi.fn();
+      modalA.addEventListener('mousedown', handlerA);
+      document.body.append(modalA, modalB);
+
+      const instanceA = blokr(modalA);
+      const instanceB = blokr(modalB);
+      instanceA.lock({ scope: 'outside', stack: true });
+      instanceB.lock({ scope: 'outside', stack: true });
+      instanceA.unlock();
+
+      modalA.dispatchEvent(mousedown());
+      expect(handlerA).not.toHaveBeenCalled();
+
+      instanceB.unlock();
+      document.body.removeChild(modalA);
+      document.body.removeChild(modalB);
+    });
+  });
+
+  describe('Clipboard and Drag and Drop', () => {
+    it('should block clipboard events by default', () => {
+      const handler = vi.fn();
+      const input = document.createElement('input');
+      input.addEventListener('paste', handler);
+      document.body.appendChild(input);
+
+      const instance = blokr(input);
+      instance.lock();
+
+      input.dispatchEvent(new ClipboardEvent('paste', { bubbles: true, cancelable: true }));
+      expect(handler).not.toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(input);
+    });
+
+    it('should block drops onto drop zones by default', () => {
+      const handler = vi.fn();
+      const dropZone = document.createElement('div');
+      dropZone.addEventListener('drop', handler);
+      document.body.appendChild(dropZone);
+
+      const instance = blokr();
+      instance.lock();
+
+      const evt = new DragEvent('drop', { bubbles: true, cancelable: true, dataTransfer: new DataTransfer() });
+      dropZone.dispatchEvent(evt);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(evt.defaultPrevented).toBe(true);
+
+      instance.unlock();
+      document.body.removeChild(dropZone);
+    });
+
+    it('should reject external drags under a global lock', () => {
+      const instance = blokr();
+      instance.lock();
+
+      const dataTransfer = new DataTransfer();
+      const evt = new DragEvent('dragover', { bubbles: true, cancelable: true, dataTransfer });
+      document.body.dispatchEvent(evt);
+
+      // The page handles the drag, so the browser does not open dropped files
+      expect(evt.defaultPrevented).toBe(true);
+      expect(dataTransfer.dropEffect).toBe('none');
+
+      instance.unlock();
+    });
+
+    it('should leave clipboard events alone when not in the events option', () => {
+      const handler = vi.fn();
+      const input = document.createElement('input');
+      input.addEventListener('copy', handler);
+      document.body.appendChild(input);
+
+      const instance = blokr(input);
+      instance.lock({ events: ['pointer', 'keyboard'] });
+
+      input.dispatchEvent(new ClipboardEvent('copy', { bubbles: true, cancelable: true }));
+      expect(handler).toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(input);
+    });
+  });
+
+  describe('Form and Navigation Guard', () => {
+    it('should cancel form submission within scope', () => {
+      const handler = vi.fn();
+      const form = document.createElement('form');
+      form.addEventListener('submit', handler);
+      document.body.appendChild(form);
+
+      const instance = blokr(form);
+      instance.lock({ guard: true });
+
+      const evt = new Event('submit', { bubbles: true, cancelable: true });
+      form.dispatchEvent(evt);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(evt.defaultPrevented).toBe(true);
+
+      instance.unlock();
+      document.body.removeChild(form);
+    });
+
+    it('should not cancel submission without the guard', () => {
+      const handler = vi.fn();
+      const form = document.createElement('form');
+      form.addEventListener('submit', evt => {
+        evt.preventDefault();
+        handler();
+      });
+      document.body.appendChild(form);
+
+      const instance = blokr(form);
+      instance.lock();
+
+      form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+      expect(handler).toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(form);
+    });
+
+    it('should prevent link activation even when clicks are not blocked', () => {
+      const linkHandler = vi.fn();
+      const buttonHandler = vi.fn();
+      const link = document.createElement('a');
+      const button = document.createElement('button');
+      link.href = '#next';
+      link.appendChild(document.createElement('span'));
+      link.addEventListener('click', linkHandler);
+      button.addEventListener('click', buttonHandler);
+      document.body.appendChild(link);
+      document.body.appendChild(button);
+
+      const instance = blokr();
+      instance.lock({ events: ['keyboard'], guard: true });
+
+      const evt = new MouseEvent('click', { bubbles: true, cancelable: true });
+      link.firstChild?.dispatchEvent(evt);
+      button.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+
+      expect(linkHandler).not.toHaveBeenCalled();
+      expect(evt.defaultPrevented).toBe(true);
+      expect(buttonHandler).toHaveBeenCalled();
+
+      instance.unlock();
+      document.body.removeChild(link);
+      document.body.removeChild(button);
+    });
+
+    it('should ask for confirmation before leaving the page during a global lock', () => {
+      const instance = blokr();
+      instance.lock({ guard: true });
+
+      const evt = new Event('beforeunload', { cancelable: true });
+      // BeforeUnloadEvent keeps returnValue as a string rather than the legacy Event flag
+      Object.defineProperty(evt, 'returnValue', { value: '', writable: true });
+      window.dispatchEvent(evt);
+      expect(evt.defaultPrevented).toBe(true);
+      expect((evt as { returnValue: unknown }).returnValue).toBe(true);
+
+      instance.unlock();
+
+      const afterUnlock = new Event('beforeunload', { cancelable: true });
+      window.dispatchEvent(afterUnlock);
+      expect(afterUnlock.defaultPrevented).toBe(false);
+    });
+
+    it('should not guard leaving the page for element locks', () => {
+      const element = document.createElement('div');
+      const instance = blokr(element);
+      instance.lock({ guard: true });
+
+      const evt = new Event('beforeunload', { cancelable: true });
+      window.dispatchEvent(evt);
+      expect(evt.defaultPrevented).toBe(false);
+
+      instance.unlock();
+    });
+  });
+
+  describe('Read-only Mode', () => {
+    const setup = () => {
+      const viewer = document.createElement('div');
+      const text = document.createElement('p');
+      const button = document.createElement('button');
+      const input = document.createElement('input');
+      viewer.appendChild(text);
+      viewer.appendChild(button);
+      viewer.appendChild(input);
+      document.body.appendChild(viewer);
+      return { viewer, text, button, input };
+    };
+
+    const dispatch = (element: Element, evt: Event) => {
+      const handler = vi.fn();
+      element.addEventListener(evt.type, handler);
+      element.dispatchEvent(evt);
+      element.removeEventListener(evt.type, handler);
+      return handler.mock.calls.length > 0;
+    };
+
+    afterEach(() => {
+      blokr.unlockAll();
+      document.body.innerHTML = '';
+    });
+
+    it('should allow pointer events for text selection but block clicks on controls', () => {
+      const { viewer, text, button } = setup();
+      blokr(viewer).lock({ mode: 'readonly' });
+
+      expect(dispatch(text, new MouseEvent('mousedown', { bubbles: true, cancelable: true }))).toBe(true);
+      expect(dispatch(text, new MouseEvent('dblclick', { bubbles: true, cancelable: true }))).toBe(true);
+      expect(dispatch(button, new MouseEvent('click', { bubbles: true, cancelable: true }))).toBe(false);
+    });
+
+    it('should allow scrolling', () => {
+      const { viewer, text } = setup();
+      blokr(viewer).lock({ mode: 'readonly' });
+
+      expect(dispatch(text, new WheelEvent('wheel', { bubbles: true, cancelable: true }))).toBe(true);
+    });
+
+    it('should allow navigation and copy keys but block typing', () => {
+      const { viewer, text, input } = setup();
+      blokr(viewer).lock({ mode: 'readonly' });
+
+      const key = (init: KeyboardEventInit) => new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+
+      expect(dispatch(text, key({ key: 'PageDown' }))).toBe(true);
+      expect(dispatch(text, key({ key: 'ArrowDown', shiftKey: true }))).toBe(true);
+      expect(dispatch(input, key({ key: 'c', ctrlKey: true }))).toBe(true);
+      expect(dispatch(input, key({ key: 'Tab' }))).toBe(true);
+      expect(dispatch(input, key({ key: 'a' }))).toBe(false);
+      expect(dispatch(input, key({ key: 'ArrowUp' }))).toBe(false);
+      expect(dispatch(text, key({ key: 'Enter' }))).toBe(false);
+      expect(dispatch(input, key({ key: 'v', ctrlKey: true }))).toBe(false);
+    });
+
+    it('should block beforeinput', () => {
+      const { viewer, input } = setup();
+      blokr(viewer).lock({ mode: 'readonly' });
+
+      expect(dispatch(input, new InputEvent('beforeinput', { bubbles: true, cancelable: true, data: 'a' }))).toBe(false);
+    });
+
+    it('should allow copy but block paste and cut', () => {
+      const { viewer, text, input } = setup();
+      blokr(viewer).lock({ mode: 'readonly' });
+
+      expect(dispatch(text, new ClipboardEvent('copy', { bubbles: true, cancelable: true }))).toBe(true);
+      expect(dispatch(input, new ClipboardEvent('paste', { bubbles: true, cancelable: true }))).toBe(false);
+      expect(dispatch(input, new ClipboardEvent('cut', { bubbles: true, cancelable: true }))).toBe(false);
+    });
+
+    it('should block drops', () => {
+      const { viewer, text } = setup();
+      blokr(viewer).lock({ mode: 'readonly' });
+
+      expect(dispatch(text, new DragEvent('drop', { bubbles: true, cancelable: true }))).toBe(false);
+    });
+  });
+
+  describe('Text Entry', () => {
+    afterEach(() => {
+      blokr.unlockAll();
+      document.body.innerHTML = '';
+    });
+
+    const setup = () => {
+      const input = document.createElement('input');
+      input.value = 'original';
+      document.body.appendChild(input);
+      return input;
+    };
+
+    it('should cancel beforeinput by default', () => {
+      const handler = vi.fn();
+      const input = setup();
+      input.addEventListener('beforeinput', handler);
+
+      blokr(input).lock();
+
+      const evt = new InputEvent('beforeinput', { bubbles: true, cancelable: true, data: 'a', inputType: 'insertText' });
+      input.dispatchEvent(evt);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(evt.defaultPrevented).toBe(true);
+    });
+
+    it('should let changes that cannot be cancelled reach the page unless asked to undo them', () => {
+      const handler = vi.fn();
+      const input = setup();
+      input.addEventListener('compositionend', handler);
+      input.addEventListener('input', handler);
+
+      blokr(input).lock();
+
+      input.dispatchEvent(new CompositionEvent('compositionstart', { bubbles: true }));
+      input.value = 'updated';
+      input.dispatchEvent(new InputEvent('input', { bubbles: true }));
+      input.dispatchEvent(new CompositionEvent('compositionend', { bubbles: true, data: 'あ' }));
+
+      // The page stays in sync with what the field shows
+      expect(input.value).toBe('updated');
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should undo IME composition once it ends', () => {
+      const handler = vi.fn();
+      const input = setup();
+      input.addEventListener('compositionend', handler);
+
+      blokr(input).lock({ undoTextEntry: true });
+
+      input.dispatchEvent(new CompositionEvent('compositionstart', { bubbles: true }));
+      input.value = 'originalあ';
+      input.dispatchEvent(new InputEvent('input', { bubbles: true, isComposing: true }));
+      expect(input.value).toBe('originalあ');
+
+      input.dispatchEvent(new CompositionEvent('compositionend', { bubbles: true, data: 'あ' }));
+      expect(input.value).toBe('original');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should undo changes that arrive without beforeinput, such as autofill', () => {
+      const handler = vi.fn();
+      const input = setup();
+      input.addEventListener('input', handler);
+
+      blokr(input).lock({ undoTextEntry: true });
+
+      input.value = 'autofilled';
+      input.dispatchEvent(new InputEvent('input', { bubbles: true }));
+
+      expect(input.value).toBe('original');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should keep programmatic changes made before the edit began', () => {
+      const input = setup();
+
+      blokr(input).lock({ undoTextEntry: true });
+
+      input.value = 'updated';
+      input.dispatchEvent(new InputEvent('beforeinput', { bubbles: true, cancelable: true, data: 'a' }));
+      input.value = 'updateda';
+      input.dispatchEvent(new InputEvent('input', { bubbles: true }));
+
+      expect(input.value).toBe('updated');
+    });
+
+    it('should undo edits in contenteditable regions', () => {
+      const editor = document.createElement('div');
+      const paragraph = document.createElement('p');
+      editor.setAttribute('contenteditable', '');
+      paragraph.textContent = 'Hello';
+      editor.appendChild(paragraph);
+      document.body.appendChild(editor);
+
+      blokr(editor).lock({ undoTextEntry: true });
+
+      paragraph.dispatchEvent(new InputEvent('beforeinput', { bubbles: true, cancelable: true, data: '!' }));
+      paragraph.textContent = 'Hello!';
+      paragraph.dispatchEvent(new InputEvent('input', { bubbles: true }));
+
+      expect(editor.textContent).toBe('Hello');
+    });
+
+    it('should leave text entry outside the scope alone', () => {
+      const input = setup();
+      const other = document.createElement('div');
+      document.body.appendChild(other);
+
+      blokr(other).lock({ undoTextEntry: true });
+
+      input.value = 'typed';
+      input.dispatchEvent(new InputEvent('input', { bubbles: true }));
+
+      expect(input.value).toBe('typed');
+    });
+  });
 });
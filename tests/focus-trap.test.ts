@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import blokr from '../src/blokr.ts';
+
+describe('Focus Trap', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const setup = () => {
+    const outside = document.createElement('button');
+    const modal = document.createElement('div');
+    const first = document.createElement('button');
+    const last = document.createElement('input');
+    modal.appendChild(first);
+    modal.appendChild(last);
+    document.body.appendChild(outside);
+    document.body.appendChild(modal);
+    return { outside, modal, first, last };
+  };
+
+  it('should move focus into the target on lock', () => {
+    const { outside, modal, first } = setup();
+    outside.focus();
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+
+    expect(document.activeElement).toBe(first);
+
+    instance.unlock();
+  });
+
+  it('should restore the previously focused element on unlock', () => {
+    const { outside, modal } = setup();
+    outside.focus();
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+    instance.unlock();
+
+    expect(document.activeElement).toBe(outside);
+  });
+
+  it('should pull programmatic focus back into the target', () => {
+    const { outside, modal, first } = setup();
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+
+    outside.focus();
+
+    expect(document.activeElement).toBe(first);
+
+    instance.unlock();
+  });
+
+  it('should wrap Tab and Shift+Tab within the target', () => {
+    const { modal, first, last } = setup();
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+
+    last.focus();
+    last.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, cancelable: true }));
+
+    expect(document.activeElement).toBe(first);
+
+    first.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', shiftKey: true, bubbles: true, cancelable: true }));
+
+    expect(document.activeElement).toBe(last);
+
+    instance.unlock();
+  });
+
+  it('should focus the target itself when it has no tabbable descendants', () => {
+    const modal = document.createElement('div');
+    document.body.appendChild(modal);
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+
+    expect(document.activeElement).toBe(modal);
+
+    instance.unlock();
+
+    expect(modal.hasAttribute('tabindex')).toBe(false);
+  });
+
+  it('should not trap focus unless scope is outside', () => {
+    const { outside, modal } = setup();
+    outside.focus();
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'inside', trapFocus: true });
+
+    expect(document.activeElement).toBe(outside);
+
+    instance.unlock();
+  });
+
+  it('should hand focus between stacked traps', () => {
+    const { outside, modal, first } = setup();
+    const nested = document.createElement('div');
+    const nestedButton = document.createElement('button');
+    nested.appendChild(nestedButton);
+    document.body.appendChild(nested);
+    outside.focus();
+
+    const instance = blokr(modal);
+    const nestedInstance = blokr(nested);
+    instance.lock({ scope: 'outside', trapFocus: true, stack: true });
+    nestedInstance.lock({ scope: 'outside', trapFocus: true, stack: true });
+
+    expect(document.activeElement).toBe(nestedButton);
+
+    nestedInstance.unlock();
+    expect(document.activeElement).toBe(first);
+
+    instance.unlock();
+    expect(document.activeElement).toBe(outside);
+  });
+
+  it('should reach and wrap around controls inside shadow roots', () => {
+    const { modal, first, last } = setup();
+    const host = document.createElement('div');
+    const shadowInput = document.createElement('input');
+    host.attachShadow({ mode: 'open' }).appendChild(shadowInput);
+    modal.insertBefore(host, last);
+    last.remove();
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+
+    // The shadow control is the last tabbable, so Tab wraps from it to the first
+    shadowInput.focus();
+    const tab = new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, composed: true, cancelable: true });
+    shadowInput.dispatchEvent(tab);
+
+    expect(tab.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(first);
+
+    first.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', shiftKey: true, bubbles: true, cancelable: true }));
+
+    expect(host.shadowRoot?.activeElement).toBe(shadowInput);
+
+    instance.unlock();
+  });
+
+  it('should let Tab move on between controls of a target inside a shadow tree', () => {
+    const host = document.createElement('div');
+    const modal = document.createElement('div');
+    const first = document.createElement('button');
+    const second = document.createElement('button');
+    modal.appendChild(first);
+    modal.appendChild(second);
+    host.attachShadow({ mode: 'open' }).appendChild(modal);
+    document.body.appendChild(host);
+
+    const instance = blokr(modal);
+    instance.lock({ scope: 'outside', trapFocus: true });
+
+    expect(host.shadowRoot?.activeElement).toBe(first);
+
+    const tab = new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, composed: true, cancelable: true });
+    first.dispatchEvent(tab);
+
+    expect(tab.defaultPrevented).toBe(false);
+
+    instance.unlock();
+  });
+});
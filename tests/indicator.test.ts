@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import blokr from '../src/blokr.ts';
+
+describe('Visual Indicator', () => {
+  afterEach(() => {
+    blokr.unlockAll();
+    document.body.innerHTML = '';
+  });
+
+  const setup = () => {
+    const panel = document.createElement('div');
+    document.body.appendChild(panel);
+    return panel;
+  };
+
+  it('should mark the target with the scope and a wait cursor', () => {
+    const panel = setup();
+
+    blokr(panel).lock({ indicator: true });
+    expect(panel.getAttribute('data-blokr-locked')).toBe('inside');
+    expect(panel.style.cursor).toBe('wait');
+
+    blokr(panel).unlock();
+    expect(panel.hasAttribute('data-blokr-locked')).toBe(false);
+    expect(panel.style.cursor).toBe('');
+  });
+
+  it('should mark the document for outside scope and keep the target cursor', () => {
+    const panel = setup();
+
+    const sibling = document.createElement('div');
+    const style = document.createElement('style');
+    style.textContent = '.panel { cursor: grab; }';
+    panel.className = 'panel';
+    document.body.appendChild(sibling);
+    document.head.appendChild(style);
+
+    blokr(panel).lock({ scope: 'outside', indicator: { cursor: 'progress' } });
+    expect(document.documentElement.getAttribute('data-blokr-locked')).toBe('outside');
+    expect(getComputedStyle(sibling).cursor).toBe('progress');
+    expect(getComputedStyle(panel).cursor).toBe('grab');
+    expect(panel.style.cursor).toBe('');
+
+    blokr(panel).unlock();
+    expect(document.documentElement.hasAttribute('data-blokr-locked')).toBe(false);
+    expect(getComputedStyle(sibling).cursor).toBe('auto');
+    document.head.removeChild(style);
+  });
+
+  it('should show the cursor on descendants that set their own', () => {
+    const panel = setup();
+    const link = document.createElement('a');
+    const style = document.createElement('style');
+    link.href = '#';
+    style.textContent = 'a { cursor: pointer; }';
+    panel.appendChild(link);
+    document.head.appendChild(style);
+
+    blokr(panel).lock({ indicator: true });
+    expect(getComputedStyle(link).cursor).toBe('wait');
+
+    blokr(panel).unlock();
+    expect(getComputedStyle(link).cursor).toBe('pointer');
+    document.head.removeChild(style);
+  });
+
+  it('should force the cursor on everything but the target of an outside lock', () => {
+    const panel = setup();
+    const link = document.createElement('a');
+    const sibling = document.createElement('a');
+    const style = document.createElement('style');
+    link.href = '#';
+    sibling.href = '#';
+    style.textContent = 'a { cursor: pointer; }';
+    panel.appendChild(link);
+    document.body.appendChild(sibling);
+    document.head.appendChild(style);
+
+    blokr(panel).lock({ scope: 'outside', indicator: true });
+    expect(getComputedStyle(sibling).cursor).toBe('wait');
+    expect(getComputedStyle(link).cursor).toBe('pointer');
+
+    blokr(panel).unlock();
+    expect(getComputedStyle(sibling).cursor).toBe('pointer');
+    document.head.removeChild(style);
+  });
+
+  it('should apply a class and custom properties', () => {
+    const panel = setup();
+    panel.classList.add('is-busy');
+
+    blokr(panel).lock({ indicator: { cursor: false, className: 'is-busy', properties: { '--dim': '0.5' } } });
+    expect(panel.style.getPropertyValue('--dim')).toBe('0.5');
+    expect(panel.style.cursor).toBe('');
+
+    blokr(panel).unlock();
+    expect(panel.style.getPropertyValue('--dim')).toBe('');
+    // Classes present before the lock are kept
+    expect(panel.classList.contains('is-busy')).toBe(true);
+  });
+
+  it('should restore inline styles set before the lock', () => {
+    const panel = setup();
+    panel.style.cursor = 'crosshair';
+
+    blokr(panel).lock({ indicator: true });
+    blokr(panel).unlock();
+
+    expect(panel.style.cursor).toBe('crosshair');
+  });
+
+  it('should be removed on timeout', () => {
+    vi.useFakeTimers();
+    const panel = setup();
+
+    blokr(panel).lock({ timeout: 1000, indicator: { className: 'locked' } });
+    expect(panel.classList.contains('locked')).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+    expect(panel.classList.contains('locked')).toBe(false);
+
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import blokr from '../src/blokr.ts';
+
+describe('Scroll Lock', () => {
+  afterEach(() => {
+    blokr.unlockAll();
+    document.body.innerHTML = '';
+  });
+
+  const setup = () => {
+    const container = document.createElement('div');
+    const content = document.createElement('div');
+    container.style.height = '100px';
+    container.style.overflow = 'auto';
+    content.style.height = '1000px';
+    container.appendChild(content);
+    document.body.appendChild(container);
+    container.scrollTop = 50;
+    return container;
+  };
+
+  it('should hide overflow of the target while locked and restore it on unlock', () => {
+    const container = setup();
+
+    blokr(container).lock({ scroll: true });
+    expect(container.style.overflow).toBe('hidden');
+    expect(container.style.overscrollBehavior).toBe('none');
+
+    blokr(container).unlock();
+    expect(container.style.overflow).toBe('auto');
+    expect(container.style.overscrollBehavior).toBe('');
+  });
+
+  it('should pad the target by the width of its hidden scrollbar, excluding its borders', () => {
+    const container = setup();
+    container.style.border = '5px solid';
+    // The width left for content must not change when the scrollbar is hidden
+    const contentWidth = container.clientWidth;
+
+    blokr(container).lock({ scroll: true });
+    expect(container.clientWidth - (parseFloat(container.style.paddingRight) || 0)).toBe(contentWidth);
+
+    blokr(container).unlock();
+    expect(container.style.paddingRight).toBe('');
+  });
+
+  it('should leave targets that do not scroll alone', () => {
+    const container = setup();
+    container.style.overflow = '';
+
+    blokr(container).lock({ scroll: true });
+    expect(container.style.overflow).toBe('');
+    expect(container.style.overscrollBehavior).toBe('');
+  });
+
+  it('should put the scroll position back when the target is scrolled anyway', () => {
+    const container = setup();
+    const top = container.scrollTop;
+
+    blokr(container).lock({ scroll: true });
+    container.scrollTop = top + 100;
+    container.dispatchEvent(new Event('scroll'));
+
+    expect(container.scrollTop).toBe(top);
+  });
+
+  it('should restore the exact scroll position on unlock', () => {
+    const container = setup();
+    const top = container.scrollTop;
+
+    blokr(container).lock({ scroll: true });
+    container.scrollTop = top + 100;
+    blokr(container).unlock();
+
+    expect(container.scrollTop).toBe(top);
+  });
+
+  it('should lock the page for global locks', () => {
+    const root = document.scrollingElement ?? document.documentElement;
+
+    blokr().lock({ scroll: true, events: [] });
+    expect((root as HTMLElement).style.overflow).toBe('hidden');
+
+    blokr().unlock();
+    expect((root as HTMLElement).style.overflow).toBe('');
+  });
+
+  it('should lock the page rather than the target for outside scope', () => {
+    const container = setup();
+    const root = document.scrollingElement ?? document.documentElement;
+
+    blokr(container).lock({ scope: 'outside', scroll: true });
+    expect((root as HTMLElement).style.overflow).toBe('hidden');
+    expect(container.style.overflow).toBe('auto');
+
+    blokr(container).unlock();
+    expect((root as HTMLElement).style.overflow).toBe('');
+  });
+});